@@ -0,0 +1,131 @@
+import { parseInput } from '../shared/parser';
+import { applyServiceLayout, buildDestinations, getAllServices } from '../shared/services';
+import { loadOptions, onOptionsChange } from '../shared/options';
+import type { WormholeOptions } from '../shared/options';
+import Debug from '../shared/debug';
+import { completeInfo } from './identity';
+
+const PARENT_MENU_ID = 'wormhole-open';
+const SERVICE_MENU_PREFIX = 'wormhole-open:';
+const MENU_CONTEXTS: chrome.contextMenus.CreateProperties['contexts'] = ['link', 'page', 'selection'];
+
+// Serialize rebuilds so removeAll() never races a previous batch of create() calls
+let rebuildQueue: Promise<void> = Promise.resolve();
+
+function createMenuItem(properties: chrome.contextMenus.CreateProperties): void {
+  chrome.contextMenus.create(properties, () => {
+    if (chrome.runtime.lastError) {
+      Debug.error('serviceWorker', 'Failed to create context menu item:', chrome.runtime.lastError.message);
+    }
+  });
+}
+
+/**
+ * Recreates the "Open in…" menu with one entry per visible service, in the user's order.
+ */
+function rebuildContextMenus(options: WormholeOptions): Promise<void> {
+  rebuildQueue = rebuildQueue
+    .then(async () => {
+      await chrome.contextMenus.removeAll();
+
+      createMenuItem({
+        id: PARENT_MENU_ID,
+        title: chrome.i18n.getMessage('context_menu_open_in') || 'Open in…',
+        contexts: MENU_CONTEXTS,
+      });
+
+      const services = applyServiceLayout(getAllServices(options.customServices), options.serviceLayout);
+      for (const [key, service] of Object.entries(services)) {
+        createMenuItem({
+          id: `${SERVICE_MENU_PREFIX}${key}`,
+          parentId: PARENT_MENU_ID,
+          title: options.showEmojis ? `${service.emoji} ${service.name}` : service.name,
+          contexts: MENU_CONTEXTS,
+        });
+      }
+
+      Debug.serviceWorker('Context menus rebuilt with', Object.keys(services).length, 'services');
+    })
+    .catch((error: unknown) => {
+      Debug.error('serviceWorker', 'Failed to rebuild context menus:', error);
+    });
+  return rebuildQueue;
+}
+
+/**
+ * Picks what the user right-clicked: selected text first, then a link, then the page itself.
+ */
+function getClickTarget(info: chrome.contextMenus.OnClickData): string | undefined {
+  // A whitespace-only selection trims to an empty string, which falls through too
+  const selection = info.selectionText?.trim();
+  if (selection) return selection;
+  return info.linkUrl ?? info.pageUrl;
+}
+
+const menuClickListener = (info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) => {
+  const menuItemId = String(info.menuItemId);
+  if (!menuItemId.startsWith(SERVICE_MENU_PREFIX)) return;
+
+  const serviceKey = menuItemId.slice(SERVICE_MENU_PREFIX.length);
+  const target = getClickTarget(info);
+  if (!target) return;
+
+  void (async () => {
+    try {
+      const options = await loadOptions();
+      const parsed = parseInput(target, options.customServices);
+      if (parsed.isErr()) {
+        Debug.error('serviceWorker', 'Context menu target could not be parsed:', parsed.error);
+        return;
+      }
+      if (!parsed.value || (!parsed.value.did && !parsed.value.handle)) {
+        Debug.serviceWorker('No DID or handle found in context menu target:', target);
+        return;
+      }
+
+      const completed = await completeInfo(parsed.value);
+      // Ignore the layout here: the clicked entry is looked up by key regardless of position
+      const destination = buildDestinations(completed, {
+        showEmojis: options.showEmojis,
+        customServices: options.customServices,
+      }).find((d) => d.key === serviceKey);
+
+      if (!destination) {
+        Debug.serviceWorker(`Service ${serviceKey} has no destination for`, completed);
+        return;
+      }
+
+      await chrome.tabs.create({
+        url: destination.url,
+        ...(tab?.index !== undefined && { index: tab.index + 1 }),
+        ...(tab?.id !== undefined && { openerTabId: tab.id }),
+      });
+    } catch (error: unknown) {
+      Debug.error('serviceWorker', 'Context menu click error:', error);
+    }
+  })();
+};
+
+/**
+ * Registers the "Open in…" context menu for links, pages and text selections,
+ * and keeps it in sync with the service options.
+ */
+export function registerContextMenus(): void {
+  chrome.contextMenus.onClicked.addListener(menuClickListener);
+
+  const rebuildFromStorage = () => {
+    void loadOptions().then(rebuildContextMenus);
+  };
+  chrome.runtime.onInstalled.addListener(rebuildFromStorage);
+  chrome.runtime.onStartup.addListener(rebuildFromStorage);
+
+  onOptionsChange((changes) => {
+    if (
+      changes.customServices !== undefined ||
+      changes.serviceLayout !== undefined ||
+      changes.showEmojis !== undefined
+    ) {
+      rebuildFromStorage();
+    }
+  });
+}
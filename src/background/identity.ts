@@ -0,0 +1,658 @@
+import { ResultAsync, err, ok, okAsync } from 'neverthrow';
+import {
+  fetchActorProfile,
+  parseDidDocument,
+  pastHandles,
+  resolveDidDocument,
+  resolveDidToIdentity,
+  resolveDidsToHandles,
+  resolveHandle,
+  resolvePlcHistory,
+  resolvePlcRotationKeys,
+  verifyHandleResolvesTo,
+} from '../shared/resolver';
+import type { HandleResolutionMethod, PlcHistoryEvent } from '../shared/resolver';
+import { DidHandleCache } from '../shared/cache';
+import type { CacheEntryInfo, CacheEntryMetadata, CachedProfile } from '../shared/cache';
+import { DEFAULT_ENDPOINTS, getEndpoints } from '../shared/endpoints';
+import type { ResolverEndpoints } from '../shared/endpoints';
+import { loadOptions, onOptionsChange } from '../shared/options';
+import Debug from '../shared/debug';
+import { InFlightRegistry } from '../shared/inflight';
+import { fetchRecordPreview } from '../shared/preview';
+import type { RecordPreview } from '../shared/preview';
+import type { DidDocumentView, IdentityUpdateMessage, ResolveManyResult, TransformInfo } from '../shared/types';
+import { networkError, type WormholeError } from '../shared/errors';
+
+export const cache = new DidHandleCache();
+
+// Resolver settings from the options, refreshed on load and whenever they change
+let endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS;
+let wellKnownLookup = false;
+let appViewFallback = true;
+let documentTtl = 24 * 60 * 60 * 1000;
+
+// DID documents shown in the popup's identity panel, kept in memory only: they are large and
+// just meant to make reopening the panel instant
+const MAX_CACHED_DOCUMENTS = 50;
+const didDocuments = new Map<string, { view: Omit<DidDocumentView, 'fromCache'>; fetchedAt: number }>();
+
+// Create initialization promise immediately at module level
+export const cacheInitialized = initializeCache();
+
+async function initializeCache(): Promise<void> {
+  try {
+    // Load debug config - optional, so we ignore errors
+    await Debug.loadRuntimeConfig().unwrapOr(undefined);
+    Debug.serviceWorker('Service worker starting, loading cache...');
+    await cache.load().match(
+      () => {
+        Debug.serviceWorker('Cache loaded successfully');
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to load cache:', error);
+        // Continue with empty cache - don't throw
+      },
+    );
+
+    // Clean up old cache format if it exists (one-time migration)
+    try {
+      const oldCacheData = await chrome.storage.local.get('didHandleCache');
+      if (oldCacheData.didHandleCache !== undefined) {
+        Debug.serviceWorker('Found old cache format, cleaning up...');
+        await chrome.storage.local.remove('didHandleCache');
+        Debug.serviceWorker('Old cache cleaned up successfully');
+      }
+    } catch (cleanupError: unknown) {
+      // Don't fail initialization if cleanup fails
+      Debug.warn('serviceWorker', 'Failed to clean up old cache:', cleanupError);
+    }
+
+    // Options may have changed while the service worker was inactive
+    await applyResolverOptions();
+  } catch (error: unknown) {
+    Debug.error('serviceWorker', 'Failed to initialize:', error);
+    // Continue with empty cache - don't throw
+  }
+}
+
+/**
+ * Reloads the resolver options and drops cache entries resolved through endpoints no longer in use.
+ */
+async function applyResolverOptions(): Promise<void> {
+  const options = await loadOptions();
+  endpoints = getEndpoints(options);
+  wellKnownLookup = options.wellKnownLookup;
+  appViewFallback = options.appViewFallback;
+  cache.setTtl(options.cacheTtlHours * 60 * 60 * 1000);
+  documentTtl = options.cacheTtlHours * 60 * 60 * 1000;
+  // Documents may have come from a PLC directory that is no longer configured
+  didDocuments.clear();
+  await cache.invalidateSources([endpoints.appView, endpoints.plcDirectory, endpoints.doh]).match(
+    (removed) => {
+      if (removed) {
+        Debug.serviceWorker(`Invalidated ${removed} cache entries from previous endpoints`);
+      }
+    },
+    (error) => {
+      Debug.error('serviceWorker', 'Failed to invalidate cache entries:', error);
+    },
+  );
+}
+
+/**
+ * Keeps resolver settings in sync with the options and invalidates cache entries from old endpoints on change.
+ */
+export function registerResolverOptionsWatcher(): void {
+  onOptionsChange((changes) => {
+    if (
+      changes.appViewUrl === undefined &&
+      changes.plcDirectoryUrl === undefined &&
+      changes.dohUrl === undefined &&
+      changes.wellKnownLookup === undefined &&
+      changes.appViewFallback === undefined &&
+      changes.cacheTtlHours === undefined
+    ) {
+      return;
+    }
+
+    void cacheInitialized.then(applyResolverOptions).catch((error: unknown) => {
+      Debug.error('serviceWorker', 'Failed to apply resolver options:', error);
+    });
+  });
+}
+
+/**
+ * Writes pending cache changes before the service worker is suspended.
+ */
+export function registerCacheFlushOnSuspend(): void {
+  const suspendListener = () => {
+    if (!cache.hasPendingWrites) return;
+    void cache.flush().match(
+      () => {
+        Debug.serviceWorker('Flushed cache before suspend');
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to flush cache before suspend:', error);
+      },
+    );
+  };
+  chrome.runtime.onSuspend.addListener(suspendListener);
+}
+
+export interface HandleLookup {
+  handle: string | null;
+  fromCache: boolean;
+  // False when the handle does not resolve back to the DID; absent when it was never checked
+  verified?: boolean;
+}
+
+export interface IdentityLookup extends HandleLookup {
+  // From the DID document; absent when it has no valid entry or could not be fetched
+  pds?: string;
+  signingKey?: string;
+  // Set when the DID document could not be fetched, so the handle is a guess or unknown
+  fallback?: boolean;
+}
+
+export interface ProfileLookup {
+  profile: CachedProfile;
+  fromCache: boolean;
+  // Set when the AppView could not be reached and this is the profile saved last time
+  offline?: boolean;
+}
+
+export interface DidLookup {
+  did: string | null;
+  fromCache: boolean;
+  // How the handle was resolved, when it was not served from the cache
+  method?: HandleResolutionMethod;
+  // False when the DID document does not claim the handle; absent when it could not be checked
+  verified?: boolean;
+  // Set when the handle no longer resolves but the DID used it before: the handle it has now
+  currentHandle?: string;
+}
+
+/**
+ * Endpoint a handle resolution went through, so the entry can be invalidated when it changes.
+ */
+function handleResolutionSource(method: HandleResolutionMethod): string | undefined {
+  switch (method) {
+    case 'dns':
+      return endpoints.doh;
+    case 'appview':
+      return endpoints.appView;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Stores a resolved pair in the cache. It is written on the cache's next flush, whose failures
+ * are logged there, since the resolution itself succeeded.
+ */
+function cacheResolvedPair(did: string, handle: string, metadata: CacheEntryMetadata): ResultAsync<void, never> {
+  return cache.set(did, handle, metadata);
+}
+
+/**
+ * Removes a DID's entry from the cache. Like `cacheResolvedPair`, failures are only logged.
+ */
+function forgetDid(did: string): ResultAsync<void, never> {
+  return cache
+    .delete(did)
+    .map(() => undefined)
+    .orElse((cacheError) => {
+      Debug.error('serviceWorker', `Failed to remove ${did} from the cache:`, cacheError);
+      return ok(undefined);
+    });
+}
+
+// Resolutions in progress, so tabs and popups asking for the same identifier at once share one
+const handleResolutions = new InFlightRegistry<IdentityLookup, WormholeError>();
+const didResolutions = new InFlightRegistry<DidLookup, WormholeError>();
+const profileFetches = new InFlightRegistry<CachedProfile, WormholeError>();
+
+// Follower and post counts change far more often than handles, so profiles are refetched sooner
+const PROFILE_TTL = 60 * 60 * 1000;
+
+/**
+ * Resolves the handle and PDS for a DID and verifies that the handle resolves back to the DID.
+ * The resolution is cancelled when `signal` aborts, unless other callers still wait for it.
+ */
+function resolveHandleForDid(did: string, signal?: AbortSignal): ResultAsync<IdentityLookup, WormholeError> {
+  return handleResolutions.run(did, (shared) => resolveAndCacheHandle(did, shared), signal);
+}
+
+function resolveAndCacheHandle(did: string, signal: AbortSignal): ResultAsync<IdentityLookup, WormholeError> {
+  const source = did.startsWith('did:plc:') ? endpoints.plcDirectory : undefined;
+  return resolveDidToIdentity(did, endpoints, { signal }).andThen(({ handle, fallback, ...hosting }) => {
+    if (!handle) {
+      // The DID document no longer claims a handle, so a cached one would keep being served
+      const dropped = !fallback && cache.getHandle(did) ? forgetDid(did) : okAsync(undefined);
+      return dropped.map(() => ({ handle: null, fromCache: false, ...(fallback && { fallback }), ...hosting }));
+    }
+    return verifyHandleResolvesTo(handle, did, endpoints, {
+      wellKnown: wellKnownLookup,
+      appViewFallback,
+      signal,
+    }).andThen((verified) => {
+      if (!verified) {
+        Debug.serviceWorker(`Handle ${handle} does not resolve back to ${did}`);
+      }
+      return cacheResolvedPair(did, handle, { source, verified, ...hosting }).map(() => ({
+        handle,
+        fromCache: false,
+        verified,
+        ...(fallback && { fallback }),
+        ...hosting,
+      }));
+    });
+  });
+}
+
+/**
+ * Resolves the DID for a handle and verifies that the DID document claims the handle.
+ * The resolution is cancelled when `signal` aborts, unless other callers still wait for it.
+ */
+function resolveDidForHandle(handle: string, signal?: AbortSignal): ResultAsync<DidLookup, WormholeError> {
+  return didResolutions.run(handle, (shared) => resolveAndCacheDid(handle, shared), signal);
+}
+
+function resolveAndCacheDid(handle: string, signal: AbortSignal): ResultAsync<DidLookup, WormholeError> {
+  return resolveHandle(handle, endpoints, { wellKnown: wellKnownLookup, appViewFallback, signal }).andThen(
+    ({ did, method }) =>
+      resolveDidDocument(did, endpoints, { signal })
+        .map((doc): CacheEntryMetadata => {
+          const { handles, ...hosting } = parseDidDocument(did, doc);
+          const verified = handles.some((claimed) => claimed.toLowerCase() === handle.toLowerCase());
+          return { verified, ...hosting };
+        })
+        .orElse((error) => {
+          // Nothing is cached for a cancelled resolution
+          if (error.type === 'ABORT_ERROR') {
+            return err(error);
+          }
+          Debug.error('serviceWorker', 'Could not fetch DID document to verify handle:', error);
+          return ok<CacheEntryMetadata>({});
+        })
+        .andThen(({ verified, ...hosting }) =>
+          cacheResolvedPair(did, handle, { source: handleResolutionSource(method), verified, ...hosting }).map(() => ({
+            did,
+            fromCache: false,
+            method,
+            ...(verified !== undefined && { verified }),
+          })),
+        ),
+  );
+}
+
+/**
+ * Fetches the PLC operation log of a did:plc and records its past handles in the cache.
+ */
+function lookupPlcHistory(did: string, signal?: AbortSignal): ResultAsync<PlcHistoryEvent[], WormholeError> {
+  return resolvePlcHistory(did, endpoints, { signal }).map((history) => {
+    cache.setPastHandles(did, pastHandles(history));
+    return history;
+  });
+}
+
+/**
+ * Indexes the past handles of a did:plc, so links with an old handle still resolve later. Only
+ * called once a handle is known to have changed, since every call fetches the whole operation
+ * log. Failures are only logged.
+ */
+function indexPastHandlesInBackground(did: string): void {
+  if (!did.startsWith('did:plc:')) return;
+  void lookupPlcHistory(did).match(
+    () => undefined,
+    (error) => {
+      Debug.error('serviceWorker', `Failed to fetch the PLC operation log of ${did}:`, error);
+    },
+  );
+}
+
+// Keys of entries currently being revalidated, so repeated hits don't trigger duplicate lookups
+const revalidating = new Set<string>();
+
+function broadcastIdentityUpdate(update: IdentityUpdateMessage): void {
+  chrome.runtime.sendMessage(update).catch(() => {
+    // No popup is open to receive it
+  });
+}
+
+/**
+ * Re-resolves a stale cached pair in the background and tells open popups when it changed.
+ * The lookup direction matches how the entry was requested, since that is what the caller relies on.
+ */
+function revalidateInBackground(did: string, handle: string, direction: 'did' | 'handle'): void {
+  const key = direction === 'did' ? did : handle;
+  if (revalidating.has(key)) return;
+  revalidating.add(key);
+
+  const refreshed =
+    direction === 'did' ?
+      resolveHandleForDid(did).map((result) => ({ did, handle: result.handle, verified: result.verified }))
+    : resolveDidForHandle(handle).map((result) => ({ did: result.did, handle, verified: result.verified }));
+
+  void refreshed
+    .match(
+      (current) => {
+        if (current.did === did && current.handle === handle) return;
+        if (current.did === did) {
+          indexPastHandlesInBackground(did);
+        }
+        Debug.serviceWorker(`Revalidated ${key}: ${did} ↔ ${handle} is now ${current.did} ↔ ${current.handle}`);
+        broadcastIdentityUpdate({
+          type: 'IDENTITY_UPDATED',
+          previousDid: did,
+          previousHandle: handle,
+          did: current.did,
+          handle: current.handle,
+          ...(current.verified !== undefined && { verified: current.verified }),
+        });
+      },
+      (error) => {
+        Debug.error('serviceWorker', `Failed to revalidate ${key}:`, error);
+      },
+    )
+    .finally(() => {
+      revalidating.delete(key);
+    });
+}
+
+/**
+ * Looks up the handle for a DID, from the cache or by resolving it.
+ * Stale cache entries are returned immediately and revalidated in the background.
+ * Aborting `signal` cancels the resolution; background revalidation is not cancelled.
+ */
+export function lookupHandle(did: string, signal?: AbortSignal): ResultAsync<HandleLookup, WormholeError> {
+  return ResultAsync.fromSafePromise(cacheInitialized).andThen(() => {
+    const cached = cache.getHandle(did);
+    const metadata = cache.getMetadata(did);
+    // Pairs from the AppView's batches were never checked against the DID document
+    if (!cached || (metadata?.verified === false && !metadata.pds)) {
+      return resolveHandleForDid(did, signal);
+    }
+
+    if (cache.isStale(did)) {
+      revalidateInBackground(did, cached, 'did');
+    }
+    const verified = metadata?.verified;
+    return okAsync({ handle: cached, fromCache: true, ...(verified !== undefined && { verified }) });
+  });
+}
+
+/**
+ * Looks up the handles of many DIDs: from the cache where possible, the rest in batches through
+ * the AppView and one by one from their DID documents. Every resolved pair is cached, the
+ * AppView's as unverified. Batches are sent whether or not the AppView fallback is enabled, since
+ * that setting is about resolving handles, not DIDs.
+ */
+export function lookupHandles(dids: readonly string[]): ResultAsync<ResolveManyResult[], never> {
+  return ResultAsync.fromSafePromise(cacheInitialized).andThen(() => {
+    const cached = new Map<string, ResolveManyResult>();
+    for (const did of new Set(dids)) {
+      const handle = cache.getHandle(did);
+      if (!handle) continue;
+      if (cache.isStale(did)) {
+        revalidateInBackground(did, handle, 'did');
+      }
+      const verified = cache.getMetadata(did)?.verified;
+      cached.set(did, { did, handle, fromCache: true, ...(verified !== undefined && { verified }) });
+    }
+
+    const misses = [...new Set(dids)].filter((did) => !cached.has(did));
+    return resolveDidsToHandles(misses, endpoints, {
+      // Verifies and caches the pair, and joins a resolution already in flight for the DID
+      resolveDid: (did) => resolveHandleForDid(did).map(({ handle }) => handle),
+    })
+      .andThen((resolutions) =>
+        ResultAsync.combine(
+          resolutions.map((resolution): ResultAsync<ResolveManyResult, never> => {
+            if ('error' in resolution) {
+              return okAsync({ did: resolution.did, error: resolution.error.message });
+            }
+            const { did, handle } = resolution;
+            const metadata = cache.getMetadata(did);
+            // Pairs from DID documents were cached by `resolveHandleForDid`, the AppView's are not yet
+            if (!handle || metadata) {
+              const verified = metadata?.verified;
+              return okAsync({ did, handle, fromCache: false, ...(verified !== undefined && { verified }) });
+            }
+            // The AppView's handles are not checked against the DID documents, so they are cached unverified
+            return cacheResolvedPair(did, handle, { source: endpoints.appView, verified: false }).map(() => ({
+              did,
+              handle,
+              fromCache: false,
+              verified: false,
+            }));
+          }),
+        ),
+      )
+      .map((resolved) => {
+        const byDid = new Map([
+          ...cached,
+          ...resolved.map((result): [string, ResolveManyResult] => [result.did, result]),
+        ]);
+        return [...new Set(dids)].flatMap((did) => byDid.get(did) ?? []);
+      });
+  });
+}
+
+/**
+ * Looks up the DID for a handle, from the cache or by resolving it.
+ * Stale cache entries are returned immediately and revalidated in the background, except
+ * unverified ones, which are resolved again first.
+ * Handles that no longer resolve fall back to the DID that used them before, if it is cached.
+ * Aborting `signal` cancels the resolution.
+ */
+export function lookupDid(handle: string, signal?: AbortSignal): ResultAsync<DidLookup, WormholeError> {
+  return ResultAsync.fromSafePromise(cacheInitialized).andThen(() => {
+    const cached = cache.getDid(handle);
+    const metadata = cached ? cache.getMetadata(cached) : undefined;
+    const verified = metadata?.verified;
+    // An unverified pair may come from a DID document claiming someone else's handle, so it is only
+    // served until it goes stale, and pairs from the AppView's batches were never checked at all
+    if (!cached || (verified === false && (!metadata?.pds || cache.isStale(cached)))) {
+      return resolveDidForHandle(handle, signal).orElse((error) => {
+        const formerOwner = cache.getDidForPastHandle(handle);
+        const currentHandle = formerOwner && cache.getHandle(formerOwner);
+        if (error.type === 'ABORT_ERROR' || !formerOwner || !currentHandle) {
+          // The handle was cached for a DID that may have moved on; its log says so for next time
+          if (cached && error.type !== 'ABORT_ERROR') {
+            indexPastHandlesInBackground(cached);
+          }
+          return err(error);
+        }
+        Debug.serviceWorker(`${handle} no longer resolves, using ${formerOwner} which is now ${currentHandle}`);
+        return ok({ did: formerOwner, fromCache: true, currentHandle });
+      });
+    }
+
+    if (cache.isStale(cached)) {
+      revalidateInBackground(cached, handle, 'handle');
+    }
+    return okAsync({ did: cached, fromCache: true, ...(verified !== undefined && { verified }) });
+  });
+}
+
+/**
+ * Looks up the handle, PDS and signing key for a DID. Cached entries resolved before the PDS
+ * was recorded are resolved again. Aborting `signal` cancels the resolution.
+ */
+export function lookupIdentity(did: string, signal?: AbortSignal): ResultAsync<IdentityLookup, WormholeError> {
+  return ResultAsync.fromSafePromise(cacheInitialized).andThen(() => {
+    const metadata = cache.getMetadata(did);
+    const cached = cache.getHandle(did);
+    if (!cached || !metadata?.pds) {
+      return resolveHandleForDid(did, signal);
+    }
+
+    if (cache.isStale(did)) {
+      revalidateInBackground(did, cached, 'did');
+    }
+    const { verified, pds, signingKey } = metadata;
+    return okAsync({
+      handle: cached,
+      fromCache: true,
+      pds,
+      ...(verified !== undefined && { verified }),
+      ...(signingKey !== undefined && { signingKey }),
+    });
+  });
+}
+
+/**
+ * Looks up an account's profile for the popup header. Profiles are saved with the cache entry
+ * and refetched after an hour; the saved one is returned when the AppView cannot be reached.
+ * Aborting `signal` cancels the fetch, unless other callers still wait for it.
+ */
+export function lookupProfile(did: string, signal?: AbortSignal): ResultAsync<ProfileLookup, WormholeError> {
+  return ResultAsync.fromSafePromise(cacheInitialized).andThen(() => {
+    const saved = cache.getMetadata(did)?.profile;
+    if (saved && Date.now() - saved.fetchedAt < PROFILE_TTL) {
+      return okAsync({ profile: saved, fromCache: true });
+    }
+
+    return profileFetches
+      .run(
+        did,
+        (shared) =>
+          fetchActorProfile(did, endpoints, { signal: shared }).andThen((fetched) => {
+            const profile = { ...fetched, fetchedAt: Date.now() };
+            // The AppView's handle is not verified, so the profile is only saved with a pair resolved elsewhere
+            if (cache.getMetadata(did)) {
+              cache.setProfile(did, profile);
+            }
+            return okAsync(profile);
+          }),
+        signal,
+      )
+      .map((profile): ProfileLookup => ({ profile, fromCache: false }))
+      .orElse((error) => {
+        if (!saved || error.type === 'ABORT_ERROR') {
+          return err(error);
+        }
+        Debug.serviceWorker(`Showing the saved profile of ${did}:`, error.message);
+        return ok({ profile: saved, fromCache: true, offline: true });
+      });
+  });
+}
+
+/**
+ * Fetches the preview of a post, feed or list, asking the account's PDS when it is known.
+ * Aborting `signal` cancels the requests.
+ */
+export function lookupRecordPreview(atUri: string, signal?: AbortSignal): ResultAsync<RecordPreview, WormholeError> {
+  const repo = atUri.slice('at://'.length).split('/')[0];
+  return ResultAsync.fromSafePromise(cacheInitialized)
+    .andThen(() =>
+      repo.startsWith('did:') ?
+        lookupIdentity(repo, signal)
+          .map(({ pds }) => pds)
+          .orElse((error) => (error.type === 'ABORT_ERROR' ? err(error) : ok(undefined)))
+      : okAsync(undefined),
+    )
+    .andThen((pds) => fetchRecordPreview(atUri, { appView: endpoints.appView, ...(pds && { pds }) }, { signal }));
+}
+
+/**
+ * Fetches the full DID document for the identity panel, with the rotation keys and operation
+ * history for did:plc. Documents are cached in memory for the cache TTL. Aborting `signal`
+ * cancels the requests.
+ */
+export function lookupDidDocument(did: string, signal?: AbortSignal): ResultAsync<DidDocumentView, WormholeError> {
+  const cached = didDocuments.get(did);
+  if (cached && Date.now() - cached.fetchedAt < documentTtl) {
+    return okAsync({ ...cached.view, fromCache: true });
+  }
+
+  return ResultAsync.fromSafePromise(cacheInitialized)
+    .andThen(() => resolveDidDocument(did, endpoints, { signal }))
+    .andThen((document) => {
+      if (!did.startsWith('did:plc:')) {
+        return okAsync({ did, document });
+      }
+      const rotationKeys = resolvePlcRotationKeys(did, endpoints, { signal }).orElse((error) => {
+        if (error.type === 'ABORT_ERROR') return err(error);
+        Debug.error('serviceWorker', 'Could not fetch PLC rotation keys:', error);
+        return ok(undefined);
+      });
+      const history = lookupPlcHistory(did, signal).orElse((error) => {
+        if (error.type === 'ABORT_ERROR') return err(error);
+        Debug.error('serviceWorker', 'Could not fetch PLC operation log:', error);
+        return ok(undefined);
+      });
+      return ResultAsync.combine([rotationKeys, history]).map(([keys, events]) => ({
+        did,
+        document,
+        ...(keys && { rotationKeys: keys }),
+        ...(events && { history: events }),
+      }));
+    })
+    .map((view) => {
+      didDocuments.delete(did);
+      didDocuments.set(did, { view, fetchedAt: Date.now() });
+      // Maps iterate in insertion order, so the first key is the least recently fetched
+      if (didDocuments.size > MAX_CACHED_DOCUMENTS) {
+        const oldest = didDocuments.keys().next();
+        if (!oldest.done) didDocuments.delete(oldest.value);
+      }
+      return { ...view, fromCache: false };
+    });
+}
+
+/**
+ * Re-resolves a cached DID right away, replacing its entry, and saves the cache. The entry is
+ * removed when the DID document no longer has a handle, and left alone when the document could
+ * not be fetched.
+ */
+export function refreshCacheEntry(did: string): ResultAsync<CacheEntryInfo | null, WormholeError> {
+  return ResultAsync.fromSafePromise(cacheInitialized)
+    .andThen(() => resolveHandleForDid(did))
+    .andThen(({ handle, fallback }) => {
+      if (fallback) {
+        return err(networkError('Could not fetch the DID document', did));
+      }
+      if (handle) {
+        return ok(cache.getEntry(did) ?? null);
+      }
+      // `resolveAndCacheHandle` already removed the entry
+      return ok(null);
+    })
+    .andThen((entry) => cache.flush().map(() => entry));
+}
+
+/**
+ * Fills in whichever of DID or handle is missing from parsed info.
+ * Resolution failures, and cancellation through `signal`, are logged and leave the field empty.
+ */
+export async function completeInfo(info: TransformInfo, signal?: AbortSignal): Promise<TransformInfo> {
+  const completed = { ...info };
+
+  if (completed.did && !completed.handle) {
+    await lookupHandle(completed.did, signal).match(
+      (result) => {
+        // Like Bluesky's handle.invalid: an unverified handle must not be used to build links
+        completed.handle = result.verified === false ? null : result.handle;
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Resolve DID to handle failed:', error);
+      },
+    );
+  } else if (completed.handle && !completed.did) {
+    await lookupDid(completed.handle, signal).match(
+      (result) => {
+        completed.did = result.did;
+        // Links built with a handle that no longer resolves would be broken
+        completed.handle = result.currentHandle ?? completed.handle;
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Resolve handle to DID failed:', error);
+      },
+    );
+  }
+
+  return completed;
+}
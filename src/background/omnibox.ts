@@ -0,0 +1,164 @@
+import { parseInput } from '../shared/parser';
+import { buildDestinations } from '../shared/services';
+import { loadOptions } from '../shared/options';
+import type { WormholeOptions } from '../shared/options';
+import Debug from '../shared/debug';
+import type { Destination, TransformInfo } from '../shared/types';
+import { completeInfo } from './identity';
+
+const DEFAULT_DESCRIPTION = 'Type a handle, DID, at:// URI or service URL';
+
+// Firefox shows omnibox descriptions as plain text, Chrome parses them as XML
+const isFirefox = chrome.runtime.getURL('').startsWith('moz-extension:');
+
+// URLs offered in the latest suggestion list, so Enter on a suggestion opens it as-is
+let suggestedUrls = new Set<string>();
+// Resolution waits until typing pauses for this long, so partial handles are not looked up
+const INPUT_DEBOUNCE = 300; // ms
+
+// Suggestions for the latest input: cancelled, including its lookups, when the input changes
+let pendingInput: { timer: ReturnType<typeof setTimeout>; controller: AbortController } | null = null;
+
+function formatDescription(text: string): string {
+  if (isFirefox) return text;
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function describeAccount(info: TransformInfo): string {
+  return info.handle ?? info.did ?? info.atUri ?? '';
+}
+
+/**
+ * Parses omnibox text and fills in the missing DID or handle from the cache or network.
+ */
+async function resolveInput(
+  text: string,
+  options: WormholeOptions,
+  signal?: AbortSignal,
+): Promise<TransformInfo | null> {
+  const parsed = parseInput(text.trim(), options.customServices);
+  if (parsed.isErr()) {
+    Debug.serviceWorker('Omnibox input could not be parsed:', parsed.error);
+    return null;
+  }
+  if (!parsed.value || (!parsed.value.did && !parsed.value.handle)) {
+    return null;
+  }
+  return completeInfo(parsed.value, signal);
+}
+
+/**
+ * Picks the configured default destination, falling back to the first available one.
+ */
+function pickDefaultDestination(destinations: Destination[], options: WormholeOptions): Destination | undefined {
+  return destinations.find((d) => d.key === options.omniboxDefaultService) ?? destinations[0];
+}
+
+function openUrl(url: string, disposition: chrome.omnibox.OnInputEnteredDisposition): void {
+  const open =
+    disposition === 'currentTab' ? chrome.tabs.update({ url })
+    : disposition === 'newBackgroundTab' ? chrome.tabs.create({ url, active: false })
+    : chrome.tabs.create({ url });
+
+  open.catch((error: unknown) => {
+    Debug.error('serviceWorker', 'Failed to open omnibox destination:', error);
+  });
+}
+
+function cancelPendingInput(): void {
+  if (!pendingInput) return;
+  clearTimeout(pendingInput.timer);
+  pendingInput.controller.abort();
+  pendingInput = null;
+}
+
+function suggestFor(
+  text: string,
+  suggest: (suggestions: chrome.omnibox.SuggestResult[]) => void,
+  signal: AbortSignal,
+): void {
+  void (async () => {
+    try {
+      const options = await loadOptions();
+      const info = await resolveInput(text, options, signal);
+      if (signal.aborted) return;
+
+      if (!info) {
+        suggestedUrls = new Set();
+        chrome.omnibox.setDefaultSuggestion({ description: formatDescription(DEFAULT_DESCRIPTION) });
+        suggest([]);
+        return;
+      }
+
+      const destinations = buildDestinations(info, options);
+      const defaultDestination = pickDefaultDestination(destinations, options);
+      const account = describeAccount(info);
+
+      chrome.omnibox.setDefaultSuggestion({
+        description: formatDescription(
+          defaultDestination ? `Open ${account} in ${defaultDestination.label}` : `No destinations for ${account}`,
+        ),
+      });
+
+      const suggestions = destinations.filter((d) => d !== defaultDestination);
+      suggestedUrls = new Set(suggestions.map((d) => d.url));
+      const results = suggestions.map((d) => ({
+        content: d.url,
+        description: formatDescription(`${d.label} – ${account}`),
+      }));
+      suggest(results);
+    } catch (error: unknown) {
+      Debug.error('serviceWorker', 'Omnibox suggestion error:', error);
+    }
+  })();
+}
+
+const inputChangedListener = (text: string, suggest: (suggestions: chrome.omnibox.SuggestResult[]) => void) => {
+  cancelPendingInput();
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    suggestFor(text, suggest, controller.signal);
+  }, INPUT_DEBOUNCE);
+  pendingInput = { timer, controller };
+};
+
+const inputEnteredListener = (text: string, disposition: chrome.omnibox.OnInputEnteredDisposition) => {
+  cancelPendingInput();
+
+  // A selected suggestion carries its destination URL as content
+  if (suggestedUrls.has(text)) {
+    openUrl(text, disposition);
+    return;
+  }
+
+  void (async () => {
+    try {
+      const options = await loadOptions();
+      const info = await resolveInput(text, options);
+      if (!info) {
+        Debug.serviceWorker('Omnibox input has no DID or handle:', text);
+        return;
+      }
+
+      const destinations = buildDestinations(info, options);
+      const destination = pickDefaultDestination(destinations, options);
+      if (destination) {
+        openUrl(destination.url, disposition);
+      }
+    } catch (error: unknown) {
+      Debug.error('serviceWorker', 'Omnibox navigation error:', error);
+    }
+  })();
+};
+
+/**
+ * Registers the `at` omnibox keyword: suggestions for every destination, Enter opens the default one.
+ */
+export function registerOmnibox(): void {
+  chrome.omnibox.onInputStarted.addListener(() => {
+    chrome.omnibox.setDefaultSuggestion({ description: formatDescription(DEFAULT_DESCRIPTION) });
+  });
+  chrome.omnibox.onInputChanged.addListener(inputChangedListener);
+  chrome.omnibox.onInputCancelled.addListener(cancelPendingInput);
+  chrome.omnibox.onInputEntered.addListener(inputEnteredListener);
+}
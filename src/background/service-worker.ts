@@ -1,67 +1,56 @@
+import { ok } from 'neverthrow';
 import { parseInput } from '../shared/parser';
-import { resolveDidToHandle, resolveHandleToDid } from '../shared/resolver';
-import { DidHandleCache } from '../shared/cache';
+import { loadOptions } from '../shared/options';
 import Debug from '../shared/debug';
-import type { SWMessage } from '../shared/types';
+import { RESOLVER_PORT } from '../shared/types';
+import type { CacheListing, PortRequest, PortResponse, SWMessage } from '../shared/types';
+import {
+  cache,
+  cacheInitialized,
+  lookupDid,
+  lookupDidDocument,
+  lookupHandles,
+  lookupProfile,
+  lookupRecordPreview,
+  lookupHandle,
+  lookupIdentity,
+  refreshCacheEntry,
+  registerCacheFlushOnSuspend,
+  registerResolverOptionsWatcher,
+} from './identity';
+import { getHostStatuses } from '../shared/retry';
+import { registerContextMenus } from './context-menu';
+import { registerOmnibox } from './omnibox';
 
-const cache = new DidHandleCache();
+registerContextMenus();
+registerOmnibox();
+registerResolverOptionsWatcher();
+registerCacheFlushOnSuspend();
 
-// Create initialization promise immediately at module level
-const cacheInitialized = initializeCache();
-
-async function initializeCache(): Promise<void> {
-  try {
-    // Load debug config - optional, so we ignore errors
-    await Debug.loadRuntimeConfig().unwrapOr(undefined);
-    Debug.serviceWorker('Service worker starting, loading cache...');
-    await cache.load().match(
-      () => {
-        Debug.serviceWorker('Cache loaded successfully');
-      },
-      (error) => {
-        Debug.error('serviceWorker', 'Failed to load cache:', error);
-        // Continue with empty cache - don't throw
-      },
-    );
-
-    // Clean up old cache format if it exists (one-time migration)
-    try {
-      const oldCacheData = await chrome.storage.local.get('didHandleCache');
-      if (oldCacheData.didHandleCache !== undefined) {
-        Debug.serviceWorker('Found old cache format, cleaning up...');
-        await chrome.storage.local.remove('didHandleCache');
-        Debug.serviceWorker('Old cache cleaned up successfully');
-      }
-    } catch (cleanupError: unknown) {
-      // Don't fail initialization if cleanup fails
-      Debug.warn('serviceWorker', 'Failed to clean up old cache:', cleanupError);
-    }
-  } catch (error: unknown) {
-    Debug.error('serviceWorker', 'Failed to initialize:', error);
-    // Continue with empty cache - don't throw
-  }
-}
-
-// Handle messages from the popup
+// Handle messages from the popup. Resolutions stop when `signal` aborts.
 const messageListener = (
   request: SWMessage,
   _sender: chrome.runtime.MessageSender,
   sendResponse: (response?: unknown) => void,
+  signal?: AbortSignal,
 ): boolean => {
   // UPDATE_CACHE
   if (request.type === 'UPDATE_CACHE' && typeof request.did === 'string' && typeof request.handle === 'string') {
     void (async () => {
       try {
         await cacheInitialized;
-        await cache.set(request.did, request.handle).match(
-          () => {
-            sendResponse({ success: true });
-          },
-          (error) => {
-            Debug.error('serviceWorker', 'Failed to update cache via message:', error);
-            sendResponse({ success: false, error: error.message });
-          },
-        );
+        await cache
+          .set(request.did, request.handle)
+          .andThen(() => cache.flush())
+          .match(
+            () => {
+              sendResponse({ success: true });
+            },
+            (error) => {
+              Debug.error('serviceWorker', 'Failed to update cache via message:', error);
+              sendResponse({ success: false, error: error.message });
+            },
+          );
       } catch (error: unknown) {
         Debug.error('serviceWorker', 'Cache initialization error:', error);
         sendResponse({ success: false, error: 'Cache initialization failed' });
@@ -72,121 +61,229 @@ const messageListener = (
 
   // GET_HANDLE
   if (request.type === 'GET_HANDLE' && typeof request.did === 'string') {
+    void lookupHandle(request.did, signal).match(
+      (result) => {
+        sendResponse(result);
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Resolve DID to handle failed:', error);
+        sendResponse({ handle: null, fromCache: false });
+      },
+    );
+    return true;
+  }
+
+  // GET_DID
+  if (request.type === 'GET_DID' && typeof request.handle === 'string') {
+    void lookupDid(request.handle, signal).match(
+      (result) => {
+        sendResponse(result);
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Resolve handle to DID failed:', error);
+        sendResponse({ did: null, fromCache: false });
+      },
+    );
+    return true;
+  }
+
+  // GET_IDENTITY
+  if (request.type === 'GET_IDENTITY' && typeof request.did === 'string') {
+    void lookupIdentity(request.did, signal).match(
+      (result) => {
+        sendResponse(result);
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Resolve DID identity failed:', error);
+        sendResponse({ handle: null, fromCache: false });
+      },
+    );
+    return true;
+  }
+
+  // GET_DID_DOCUMENT
+  if (request.type === 'GET_DID_DOCUMENT' && typeof request.did === 'string') {
+    void lookupDidDocument(request.did, signal).match(
+      (view) => {
+        sendResponse({ success: true, view });
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to fetch DID document:', error);
+        sendResponse({ success: false, error: error.message });
+      },
+    );
+    return true;
+  }
+
+  // GET_PROFILE
+  if (request.type === 'GET_PROFILE' && typeof request.did === 'string') {
+    void lookupProfile(request.did, signal).match(
+      (result) => {
+        sendResponse({ success: true, ...result });
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to fetch profile:', error);
+        sendResponse({ success: false, error: error.message });
+      },
+    );
+    return true;
+  }
+
+  // GET_RECORD_PREVIEW
+  if (request.type === 'GET_RECORD_PREVIEW' && typeof request.atUri === 'string') {
+    void lookupRecordPreview(request.atUri, signal).match(
+      (preview) => {
+        sendResponse({ success: true, preview });
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to fetch record preview:', error);
+        sendResponse({ success: false, error: error.message });
+      },
+    );
+    return true;
+  }
+
+  // GET_NETWORK_STATUS
+  if (request.type === 'GET_NETWORK_STATUS') {
+    sendResponse({ success: true, hosts: getHostStatuses() });
+    return true;
+  }
+
+  // RESOLVE_MANY
+  if (
+    request.type === 'RESOLVE_MANY' &&
+    Array.isArray(request.dids) &&
+    request.dids.every((did) => typeof did === 'string')
+  ) {
+    void lookupHandles(request.dids).match(
+      (results) => {
+        sendResponse({ success: true, results });
+      },
+      () => undefined,
+    );
+    return true;
+  }
+
+  // DEBUG_LOG
+  if (request.type === 'DEBUG_LOG' && typeof request.message === 'string') {
+    Debug.popup('Popup message:', request.message);
+    sendResponse({ success: true });
+    return true;
+  }
+
+  // CLEAR_CACHE
+  if (request.type === 'CLEAR_CACHE') {
     void (async () => {
       try {
         await cacheInitialized;
-        const handle = cache.getHandle(request.did);
-        if (handle) {
-          sendResponse({ handle, fromCache: true });
-          return;
-        }
-        const result = await resolveDidToHandle(request.did);
-        await result.match(
-          async (handle) => {
-            if (handle) {
-              await cache.set(request.did, handle).match(
-                () => {
-                  // Success - no action needed
-                },
-                (cacheError) => {
-                  Debug.error('serviceWorker', 'Failed to cache DID->handle mapping:', cacheError);
-                },
-              );
-            }
-            sendResponse({ handle, fromCache: false });
+        await cache.clear().match(
+          () => {
+            sendResponse({ success: true });
           },
           (error) => {
-            Debug.error('serviceWorker', 'Resolve DID to handle failed:', error);
-            sendResponse({ handle: null, fromCache: false });
+            Debug.error('serviceWorker', 'Failed to clear cache:', error);
+            sendResponse({ success: false, error: error.message });
           },
         );
       } catch (error: unknown) {
-        Debug.error('serviceWorker', 'GET_HANDLE error:', error);
-        sendResponse({ handle: null, fromCache: false, error: 'Cache initialization failed' });
+        Debug.error('serviceWorker', 'Clear cache initialization error:', error);
+        sendResponse({ success: false, error: 'Cache initialization failed' });
       }
     })();
     return true;
   }
 
-  // GET_DID
-  if (request.type === 'GET_DID' && typeof request.handle === 'string') {
+  // LIST_CACHE
+  if (request.type === 'LIST_CACHE') {
     void (async () => {
       try {
         await cacheInitialized;
-        const did = cache.getDid(request.handle);
-        if (did) {
-          sendResponse({ did, fromCache: true });
-          return;
-        }
-        const result = await resolveHandleToDid(request.handle);
-        await result.match(
-          async (did) => {
-            if (did) {
-              await cache.set(did, request.handle).match(
-                () => {
-                  // Success - no action needed
-                },
-                (cacheError) => {
-                  Debug.error('serviceWorker', 'Failed to cache handle->DID mapping:', cacheError);
-                },
-              );
-            }
-            sendResponse({ did, fromCache: false });
-          },
-          (error) => {
-            Debug.error('serviceWorker', 'Resolve handle to DID failed:', error);
-            sendResponse({ did: null, fromCache: false });
-          },
-        );
+        const bytesInUse = await cache
+          .bytesInUse()
+          .orElse((error) => {
+            Debug.error('serviceWorker', 'Failed to measure cache storage:', error);
+            return ok(cache.estimatedStorageSize);
+          })
+          .unwrapOr(0);
+        const listing: CacheListing = { entries: cache.listEntries(), stats: { ...cache.stats, bytesInUse } };
+        sendResponse(listing);
       } catch (error: unknown) {
-        Debug.error('serviceWorker', 'GET_DID error:', error);
-        sendResponse({ did: null, fromCache: false, error: 'Cache initialization failed' });
+        Debug.error('serviceWorker', 'Failed to list cache:', error);
+        sendResponse({ success: false, error: 'Failed to list cache' });
       }
     })();
     return true;
   }
 
-  // DEBUG_LOG
-  if (request.type === 'DEBUG_LOG' && typeof request.message === 'string') {
-    Debug.popup('Popup message:', request.message);
-    sendResponse({ success: true });
-    return true;
-  }
-
-  // CLEAR_CACHE
-  if (request.type === 'CLEAR_CACHE') {
+  // DELETE_CACHE_ENTRY
+  if (request.type === 'DELETE_CACHE_ENTRY' && typeof request.did === 'string') {
     void (async () => {
       try {
         await cacheInitialized;
-        await cache.clear().match(
+        await cache.delete(request.did).match(
           () => {
             sendResponse({ success: true });
           },
           (error) => {
-            Debug.error('serviceWorker', 'Failed to clear cache:', error);
+            Debug.error('serviceWorker', 'Failed to delete cache entry:', error);
             sendResponse({ success: false, error: error.message });
           },
         );
       } catch (error: unknown) {
-        Debug.error('serviceWorker', 'Clear cache initialization error:', error);
-        sendResponse({ success: false, error: 'Cache initialization failed' });
+        Debug.error('serviceWorker', 'Delete cache entry error:', error);
+        sendResponse({ success: false, error: 'Failed to delete cache entry' });
       }
     })();
     return true;
   }
 
+  // REFRESH_CACHE_ENTRY
+  if (request.type === 'REFRESH_CACHE_ENTRY' && typeof request.did === 'string') {
+    void refreshCacheEntry(request.did).match(
+      (entry) => {
+        sendResponse({ success: true, entry });
+      },
+      (error) => {
+        Debug.error('serviceWorker', 'Failed to refresh cache entry:', error);
+        sendResponse({ success: false, error: error.message });
+      },
+    );
+    return true;
+  }
+
   return false;
 };
 
 chrome.runtime.onMessage.addListener(messageListener);
 
+// Messages sent through the resolver port are handled the same way, but closing the popup
+// disconnects the port and cancels the resolutions it asked for
+const portListener = (port: chrome.runtime.Port) => {
+  if (port.name !== RESOLVER_PORT) return;
+
+  const controller = new AbortController();
+  port.onDisconnect.addListener(() => {
+    controller.abort();
+  });
+  port.onMessage.addListener((message: PortRequest) => {
+    const respond = (response?: unknown) => {
+      if (controller.signal.aborted) return;
+      port.postMessage({ id: message.id, response } satisfies PortResponse);
+    };
+    messageListener(message.request, port.sender ?? {}, respond, controller.signal);
+  });
+};
+
+chrome.runtime.onConnect.addListener(portListener);
+
 const tabUpdateListener = (_tabId: number, info: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
   void (async () => {
     try {
       await cacheInitialized;
       if (info.status !== 'complete' || !tab.url) return;
 
-      const parseResult = parseInput(tab.url);
+      const options = await loadOptions();
+      const parseResult = parseInput(tab.url, options.customServices);
       await parseResult.match(
         async (data) => {
           if (!data || (!data.did && !data.handle)) return;
@@ -206,24 +303,8 @@ const tabUpdateListener = (_tabId: number, info: chrome.tabs.TabChangeInfo, tab:
 
           // Case 2: URL had only DID, resolve handle if not cached
           if (data.did && !data.handle) {
-            const cachedHandle = cache.getHandle(data.did);
-            if (cachedHandle) {
-              return;
-            }
-            const result = await resolveDidToHandle(data.did);
-            await result.match(
-              async (handle) => {
-                if (handle && data.did) {
-                  await cache.set(data.did, handle).match(
-                    () => {
-                      // Success - no action needed
-                    },
-                    (cacheError) => {
-                      Debug.error('serviceWorker', 'Failed to cache background DID->handle resolution:', cacheError);
-                    },
-                  );
-                }
-              },
+            await lookupHandle(data.did).match(
+              () => undefined,
               (error) => {
                 Debug.error('serviceWorker', 'Background DID->handle resolution failed:', error);
               },
@@ -233,24 +314,8 @@ const tabUpdateListener = (_tabId: number, info: chrome.tabs.TabChangeInfo, tab:
 
           // Case 3: URL had only handle, resolve DID if not cached
           if (data.handle && !data.did) {
-            const cachedDid = cache.getDid(data.handle);
-            if (cachedDid) {
-              return;
-            }
-            const result = await resolveHandleToDid(data.handle);
-            await result.match(
-              async (did) => {
-                if (did && data.handle) {
-                  await cache.set(did, data.handle).match(
-                    () => {
-                      // Success - no action needed
-                    },
-                    (cacheError) => {
-                      Debug.error('serviceWorker', 'Failed to cache background handle->DID resolution:', cacheError);
-                    },
-                  );
-                }
-              },
+            await lookupDid(data.handle).match(
+              () => undefined,
               (error) => {
                 Debug.error('serviceWorker', 'Background handle->DID resolution failed:', error);
               },
@@ -0,0 +1,168 @@
+import type { CacheEntryInfo } from '../shared/cache';
+import type { CacheListing, SWMessage } from '../shared/types';
+import { sendMessage } from '../shared/messaging';
+
+type SortOrder = 'recent' | 'oldest';
+
+interface MutationResponse {
+  success: boolean;
+  error?: string;
+  entry?: CacheEntryInfo | null;
+}
+
+// Rendering tens of thousands of rows freezes the page; search narrows the list instead
+const MAX_RENDERED_ENTRIES = 200;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function matchesQuery(entry: CacheEntryInfo, query: string): boolean {
+  return entry.did.toLowerCase().includes(query) || entry.handle.toLowerCase().includes(query);
+}
+
+/**
+ * Wires up the cache inspector on the options page: stats, search, sorting and per-entry actions.
+ */
+export function initializeCacheInspector(): void {
+  const stats = document.getElementById('cacheStats') as HTMLParagraphElement | null;
+  const search = document.getElementById('cacheSearch') as HTMLInputElement | null;
+  const sort = document.getElementById('cacheSort') as HTMLSelectElement | null;
+  const reload = document.getElementById('cacheReload') as HTMLButtonElement | null;
+  const errorEl = document.getElementById('cacheError') as HTMLDivElement | null;
+  const list = document.getElementById('cacheEntryList') as HTMLUListElement | null;
+
+  if (!stats || !search || !sort || !reload || !errorEl || !list) {
+    console.error('Cache inspector elements not found');
+    return;
+  }
+
+  let listing: CacheListing | null = null;
+
+  const renderStats = () => {
+    if (!listing) {
+      stats.textContent = '';
+      return;
+    }
+    const { entries, hits, misses, bytesInUse } = listing.stats;
+    const lookups = hits + misses;
+    const hitRate = lookups ? ` (${Math.round((hits / lookups) * 100)}% hit rate)` : '';
+    stats.textContent = `${entries} entries · ${formatBytes(bytesInUse)} in storage · ${hits} hits, ${misses} misses${hitRate}`;
+  };
+
+  const renderEntries = () => {
+    list.replaceChildren();
+    if (!listing) return;
+
+    const query = search.value.trim().toLowerCase();
+    const order = sort.value as SortOrder;
+    const matches = listing.entries
+      .filter((entry) => !query || matchesQuery(entry, query))
+      .sort((a, b) => (order === 'oldest' ? a.lastAccessed - b.lastAccessed : b.lastAccessed - a.lastAccessed));
+
+    if (!matches.length) {
+      const empty = document.createElement('li');
+      empty.className = 'cache-entry-empty';
+      empty.textContent = listing.entries.length ? 'No entries match.' : 'The cache is empty.';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const entry of matches.slice(0, MAX_RENDERED_ENTRIES)) {
+      list.appendChild(renderEntry(entry));
+    }
+    if (matches.length > MAX_RENDERED_ENTRIES) {
+      const more = document.createElement('li');
+      more.className = 'cache-entry-empty';
+      more.textContent = `Showing ${MAX_RENDERED_ENTRIES} of ${matches.length} entries. Search to narrow the list.`;
+      list.appendChild(more);
+    }
+  };
+
+  // Sends a per-entry message and reloads the list once the service worker has applied it
+  const actionButton = (
+    label: string,
+    verb: string,
+    message: Extract<SWMessage, { type: 'REFRESH_CACHE_ENTRY' | 'DELETE_CACHE_ENTRY' }>,
+  ): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    const handleClick = () => {
+      button.disabled = true;
+      const { did } = message;
+      void sendMessage<MutationResponse>(message).match(
+        (response) => {
+          if (!response.success) {
+            errorEl.textContent = `Failed to ${verb} ${did}: ${response.error ?? 'unknown error'}`;
+            button.disabled = false;
+            return;
+          }
+          errorEl.textContent = '';
+          load();
+        },
+        (error) => {
+          console.error(`Failed to ${verb} cache entry:`, error);
+          errorEl.textContent = `Failed to ${verb} ${did}`;
+          button.disabled = false;
+        },
+      );
+    };
+    button.addEventListener('click', handleClick);
+    return button;
+  };
+
+  const renderEntry = (entry: CacheEntryInfo): HTMLLIElement => {
+    const item = document.createElement('li');
+    item.className = 'cache-entry';
+
+    const identity = document.createElement('div');
+    identity.className = 'cache-entry-identity';
+
+    const handle = document.createElement('span');
+    handle.textContent = entry.verified === false ? `⚠️ @${entry.handle} (unverified)` : `@${entry.handle}`;
+
+    const did = document.createElement('code');
+    did.className = 'cache-entry-did';
+    did.textContent = entry.did;
+
+    const accessed = document.createElement('span');
+    accessed.className = 'cache-entry-accessed';
+    accessed.textContent = `Last used ${new Date(entry.lastAccessed).toLocaleString()}`;
+
+    identity.append(handle, did, accessed);
+
+    const refresh = actionButton('Re-resolve', 're-resolve', { type: 'REFRESH_CACHE_ENTRY', did: entry.did });
+    const remove = actionButton('Delete', 'delete', { type: 'DELETE_CACHE_ENTRY', did: entry.did });
+
+    item.append(identity, refresh, remove);
+    return item;
+  };
+
+  const load = () => {
+    void sendMessage<CacheListing | MutationResponse>({ type: 'LIST_CACHE' }).match(
+      (response) => {
+        if (!('entries' in response)) {
+          console.error('Failed to list cache:', response.error);
+          errorEl.textContent = 'Failed to load the cache';
+          return;
+        }
+        listing = response;
+        renderStats();
+        renderEntries();
+      },
+      (error) => {
+        console.error('Failed to list cache:', error);
+        errorEl.textContent = 'Failed to load the cache';
+      },
+    );
+  };
+
+  search.addEventListener('input', renderEntries);
+  sort.addEventListener('change', renderEntries);
+  reload.addEventListener('click', load);
+
+  load();
+}
@@ -0,0 +1,226 @@
+import { setOption, onOptionsChange } from '../shared/options';
+import type { WormholeOptions } from '../shared/options';
+import {
+  removeCustomService,
+  upsertCustomService,
+  validateCustomService,
+  type CustomServiceDefinition,
+} from '../shared/custom-services';
+import { CONTENT_KINDS, CONTENT_KIND_LABELS } from '../shared/content';
+import type { ContentKind } from '../shared/content';
+
+interface CustomServiceForm {
+  form: HTMLFormElement;
+  name: HTMLInputElement;
+  emoji: HTMLInputElement;
+  urlTemplate: HTMLInputElement;
+  parsePattern: HTMLInputElement;
+  supports: HTMLDivElement;
+  requireHandle: HTMLInputElement;
+  requireRkey: HTMLInputElement;
+  requirePlc: HTMLInputElement;
+  submit: HTMLButtonElement;
+  cancel: HTMLButtonElement;
+  error: HTMLDivElement;
+}
+
+function getForm(): CustomServiceForm | null {
+  const ids: Record<keyof CustomServiceForm, string> = {
+    form: 'customServiceForm',
+    name: 'csName',
+    emoji: 'csEmoji',
+    urlTemplate: 'csUrlTemplate',
+    parsePattern: 'csParsePattern',
+    supports: 'csSupports',
+    requireHandle: 'csRequireHandle',
+    requireRkey: 'csRequireRkey',
+    requirePlc: 'csRequirePlc',
+    submit: 'csSubmit',
+    cancel: 'csCancel',
+    error: 'csError',
+  };
+
+  const elements: Partial<Record<keyof CustomServiceForm, HTMLElement>> = {};
+  for (const [key, id] of Object.entries(ids) as [keyof CustomServiceForm, string][]) {
+    const element = document.getElementById(id);
+    if (!element) return null;
+    elements[key] = element;
+  }
+  return elements as CustomServiceForm;
+}
+
+/**
+ * Adds a checkbox per content kind to the "Shows" row.
+ */
+function renderKindCheckboxes(container: HTMLDivElement): Map<ContentKind, HTMLInputElement> {
+  const checkboxes = new Map<ContentKind, HTMLInputElement>();
+  container.replaceChildren();
+  for (const kind of CONTENT_KINDS) {
+    const label = document.createElement('label');
+    label.className = 'checkbox-label inline';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = kind;
+    const text = document.createElement('span');
+    text.className = 'checkbox-text';
+    text.textContent = CONTENT_KIND_LABELS[kind];
+    label.append(checkbox, text);
+    container.appendChild(label);
+    checkboxes.set(kind, checkbox);
+  }
+  return checkboxes;
+}
+
+/**
+ * Wires up the custom services list and editor form on the options page.
+ */
+export function initializeCustomServices(initial: CustomServiceDefinition[]): void {
+  const list = document.getElementById('customServiceList') as HTMLUListElement | null;
+  const form = getForm();
+
+  if (!list || !form) {
+    console.error('Custom service elements not found');
+    return;
+  }
+
+  const kindCheckboxes = renderKindCheckboxes(form.supports);
+  const setKinds = (kinds: readonly ContentKind[]) => {
+    for (const [kind, checkbox] of kindCheckboxes) {
+      checkbox.checked = kinds.includes(kind);
+    }
+  };
+
+  let services = initial;
+  let editingId: string | null = null;
+
+  const resetForm = () => {
+    editingId = null;
+    form.form.reset();
+    setKinds(['profile']);
+    form.submit.textContent = 'Add service';
+    form.cancel.hidden = true;
+    form.error.textContent = '';
+  };
+
+  const fillForm = (service: CustomServiceDefinition) => {
+    editingId = service.id;
+    form.name.value = service.name;
+    form.emoji.value = service.emoji;
+    form.urlTemplate.value = service.urlTemplate;
+    form.parsePattern.value = service.parsePattern ?? '';
+    // Definitions stored by older versions only have the legacy `contentSupport` value
+    const kinds = validateCustomService(service).match(
+      (valid) => valid.supports,
+      (): ContentKind[] => ['profile'],
+    );
+    setKinds(kinds);
+    form.requireHandle.checked = service.requiredFields?.handle ?? false;
+    form.requireRkey.checked = service.requiredFields?.rkey ?? false;
+    form.requirePlc.checked = service.requiredFields?.plcOnly ?? false;
+    form.submit.textContent = 'Save service';
+    form.cancel.hidden = false;
+    form.error.textContent = '';
+    form.name.focus();
+  };
+
+  const save = (next: CustomServiceDefinition[]) => {
+    const previous = services;
+    services = next;
+    render();
+    void setOption('customServices', next).match(
+      () => undefined,
+      (error) => {
+        console.error('Failed to save custom services:', error);
+        services = previous;
+        render();
+        form.error.textContent =
+          error.operation === 'quota' ?
+            'Too many custom services to sync: remove one or shorten its templates'
+          : 'Failed to save custom services';
+      },
+    );
+  };
+
+  const render = () => {
+    list.replaceChildren();
+
+    if (!services.length) {
+      const empty = document.createElement('li');
+      empty.className = 'custom-service-empty';
+      empty.textContent = 'No custom services yet.';
+      list.appendChild(empty);
+      return;
+    }
+
+    for (const service of services) {
+      const item = document.createElement('li');
+      item.className = 'custom-service';
+
+      const label = document.createElement('span');
+      label.className = 'custom-service-label';
+      label.textContent = service.emoji ? `${service.emoji} ${service.name}` : service.name;
+
+      const template = document.createElement('code');
+      template.className = 'custom-service-template';
+      template.textContent = service.urlTemplate;
+
+      const edit = document.createElement('button');
+      edit.type = 'button';
+      edit.textContent = 'Edit';
+      edit.addEventListener('click', () => {
+        fillForm(service);
+      });
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.textContent = 'Delete';
+      remove.addEventListener('click', () => {
+        if (editingId === service.id) resetForm();
+        save(removeCustomService(services, service.id));
+      });
+
+      item.append(label, template, edit, remove);
+      list.appendChild(item);
+    }
+  };
+
+  form.form.addEventListener('submit', (e) => {
+    e.preventDefault();
+
+    const candidate = {
+      id: editingId ?? crypto.randomUUID(),
+      name: form.name.value,
+      emoji: form.emoji.value,
+      urlTemplate: form.urlTemplate.value,
+      parsePattern: form.parsePattern.value,
+      supports: CONTENT_KINDS.filter((kind) => kindCheckboxes.get(kind)?.checked),
+      requiredFields: {
+        handle: form.requireHandle.checked,
+        rkey: form.requireRkey.checked,
+        plcOnly: form.requirePlc.checked,
+      },
+    };
+
+    const result = validateCustomService(candidate);
+    if (result.isErr()) {
+      form.error.textContent = result.error.message;
+      return;
+    }
+
+    save(upsertCustomService(services, result.value));
+    resetForm();
+  });
+
+  form.cancel.addEventListener('click', resetForm);
+
+  // Keep the list in sync with edits made in other options pages
+  onOptionsChange((changes: Partial<WormholeOptions>) => {
+    if (changes.customServices !== undefined) {
+      services = changes.customServices;
+      render();
+    }
+  });
+
+  resetForm();
+  render();
+}
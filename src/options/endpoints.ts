@@ -0,0 +1,146 @@
+import { setOptions, onOptionsChange } from '../shared/options';
+import type { WormholeOptions } from '../shared/options';
+import { DEFAULT_ENDPOINTS, validateEndpointUrl } from '../shared/endpoints';
+
+// Well-known lookups go to the host of whichever handle is resolved
+const ALL_HTTPS_HOSTS = 'https://*/*';
+
+/**
+ * Host permission pattern for an endpoint, or null when the manifest already grants it.
+ */
+function permissionOrigin(endpoint: string): string | null {
+  const { origin } = new URL(endpoint);
+  const defaults = [DEFAULT_ENDPOINTS.appView, DEFAULT_ENDPOINTS.plcDirectory, DEFAULT_ENDPOINTS.doh].map(
+    (url) => new URL(url).origin,
+  );
+  return defaults.includes(origin) ? null : `${origin}/*`;
+}
+
+type EndpointOptions = Pick<
+  WormholeOptions,
+  'appViewUrl' | 'plcDirectoryUrl' | 'dohUrl' | 'wellKnownLookup' | 'appViewFallback'
+>;
+
+/**
+ * Wires up the resolver endpoint form (AppView, PLC directory, DNS-over-HTTPS) on the options page.
+ */
+export function initializeEndpoints(initial: EndpointOptions): void {
+  const form = document.getElementById('endpointForm') as HTMLFormElement | null;
+  const appViewInput = document.getElementById('appViewUrl') as HTMLInputElement | null;
+  const plcInput = document.getElementById('plcDirectoryUrl') as HTMLInputElement | null;
+  const dohInput = document.getElementById('dohUrl') as HTMLInputElement | null;
+  const wellKnownCheckbox = document.getElementById('wellKnownLookup') as HTMLInputElement | null;
+  const fallbackCheckbox = document.getElementById('appViewFallback') as HTMLInputElement | null;
+  const resetBtn = document.getElementById('resetEndpoints') as HTMLButtonElement | null;
+  const errorEl = document.getElementById('endpointError') as HTMLDivElement | null;
+
+  if (
+    !form ||
+    !appViewInput ||
+    !plcInput ||
+    !dohInput ||
+    !wellKnownCheckbox ||
+    !fallbackCheckbox ||
+    !resetBtn ||
+    !errorEl
+  ) {
+    console.error('Endpoint elements not found');
+    return;
+  }
+
+  const fill = (values: Partial<EndpointOptions>) => {
+    if (values.appViewUrl !== undefined) appViewInput.value = values.appViewUrl;
+    if (values.plcDirectoryUrl !== undefined) plcInput.value = values.plcDirectoryUrl;
+    if (values.dohUrl !== undefined) dohInput.value = values.dohUrl;
+    if (values.wellKnownLookup !== undefined) wellKnownCheckbox.checked = values.wellKnownLookup;
+    if (values.appViewFallback !== undefined) fallbackCheckbox.checked = values.appViewFallback;
+  };
+
+  fill(initial);
+
+  const save = (values: EndpointOptions) => {
+    void setOptions(values).match(
+      () => {
+        fill(values);
+        errorEl.textContent = '';
+      },
+      (error) => {
+        console.error('Failed to save endpoints:', error);
+        errorEl.textContent = 'Failed to save endpoints';
+      },
+    );
+  };
+
+  const handleSubmit = (e: SubmitEvent) => {
+    e.preventDefault();
+
+    const appView = validateEndpointUrl(appViewInput.value, 'appViewUrl');
+    if (appView.isErr()) {
+      errorEl.textContent = `AppView: ${appView.error.message}`;
+      appViewInput.focus();
+      return;
+    }
+    const plcDirectory = validateEndpointUrl(plcInput.value, 'plcDirectoryUrl');
+    if (plcDirectory.isErr()) {
+      errorEl.textContent = `PLC directory: ${plcDirectory.error.message}`;
+      plcInput.focus();
+      return;
+    }
+    const doh = validateEndpointUrl(dohInput.value, 'dohUrl');
+    if (doh.isErr()) {
+      errorEl.textContent = `DNS-over-HTTPS: ${doh.error.message}`;
+      dohInput.focus();
+      return;
+    }
+
+    const values: EndpointOptions = {
+      appViewUrl: appView.value,
+      plcDirectoryUrl: plcDirectory.value,
+      dohUrl: doh.value,
+      wellKnownLookup: wellKnownCheckbox.checked,
+      appViewFallback: fallbackCheckbox.checked,
+    };
+    const origins = [appView.value, plcDirectory.value, doh.value]
+      .map(permissionOrigin)
+      .filter((origin): origin is string => origin !== null);
+    if (values.wellKnownLookup) {
+      origins.push(ALL_HTTPS_HOSTS);
+    }
+    if (!origins.length) {
+      save(values);
+      return;
+    }
+
+    // Must be requested synchronously from the submit gesture
+    chrome.permissions
+      .request({ origins })
+      .then((granted) => {
+        if (granted) {
+          save(values);
+        } else {
+          errorEl.textContent =
+            values.wellKnownLookup ?
+              'Access to all sites is needed for well-known lookups and these endpoints'
+            : `Access to ${origins.join(', ')} is needed to use these endpoints`;
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to request host permissions:', error);
+        errorEl.textContent = 'Failed to request access to the endpoints';
+      });
+  };
+
+  form.addEventListener('submit', handleSubmit);
+
+  resetBtn.addEventListener('click', () => {
+    save({
+      appViewUrl: DEFAULT_ENDPOINTS.appView,
+      plcDirectoryUrl: DEFAULT_ENDPOINTS.plcDirectory,
+      dohUrl: DEFAULT_ENDPOINTS.doh,
+      wellKnownLookup: false,
+      appViewFallback: true,
+    });
+  });
+
+  onOptionsChange(fill);
+}
@@ -1,5 +1,108 @@
-import { getOptions, setOptions, onOptionsChange, getDefaultOptions } from '../shared/options';
+import { getOptions, setOptions, setOption, onOptionsChange, getDefaultOptions } from '../shared/options';
 import type { WormholeOptions } from '../shared/options';
+import { initializeCustomServices } from './custom-services';
+import { initializeServiceLayout } from './service-layout';
+import { initializeEndpoints } from './endpoints';
+import { initializeCacheInspector } from './cache-inspector';
+import { getAllServices } from '../shared/services';
+import type { CustomServiceDefinition } from '../shared/custom-services';
+
+/**
+ * Wires up the select for the service opened by the omnibox keyword.
+ */
+function initializeOmniboxDefault(initial: WormholeOptions): void {
+  const select = document.getElementById('omniboxDefaultService') as HTMLSelectElement | null;
+  if (!select) {
+    console.error('Omnibox default select not found');
+    return;
+  }
+
+  let selected = initial.omniboxDefaultService;
+
+  const render = (customServices: CustomServiceDefinition[]) => {
+    select.replaceChildren();
+    for (const [key, service] of Object.entries(getAllServices(customServices))) {
+      const option = document.createElement('option');
+      option.value = key;
+      option.textContent = `${service.emoji} ${service.name}`;
+      select.appendChild(option);
+    }
+    select.value = selected;
+  };
+
+  const handleChange = () => {
+    const previous = selected;
+    selected = select.value;
+    void setOption('omniboxDefaultService', selected).match(
+      () => undefined,
+      (error) => {
+        console.error('Failed to save omnibox default:', error);
+        selected = previous;
+        select.value = previous;
+      },
+    );
+  };
+
+  select.addEventListener('change', handleChange);
+
+  onOptionsChange((changes) => {
+    if (changes.omniboxDefaultService !== undefined) {
+      selected = changes.omniboxDefaultService;
+      select.value = selected;
+    }
+    if (changes.customServices !== undefined) {
+      render(changes.customServices);
+    }
+  });
+
+  render(initial.customServices);
+}
+
+const MIN_CACHE_TTL_HOURS = 1;
+const MAX_CACHE_TTL_HOURS = 720;
+
+/**
+ * Wires up the number input for how long cached handles stay fresh.
+ */
+function initializeCacheTtl(initial: WormholeOptions): void {
+  const input = document.getElementById('cacheTtlHours') as HTMLInputElement | null;
+  if (!input) {
+    console.error('Cache TTL input not found');
+    return;
+  }
+
+  let saved = initial.cacheTtlHours;
+  input.value = String(saved);
+
+  const handleChange = () => {
+    const hours = Math.round(Number(input.value));
+    if (!Number.isFinite(hours) || hours < MIN_CACHE_TTL_HOURS || hours > MAX_CACHE_TTL_HOURS) {
+      input.value = String(saved);
+      return;
+    }
+
+    const previous = saved;
+    saved = hours;
+    input.value = String(hours);
+    void setOption('cacheTtlHours', hours).match(
+      () => undefined,
+      (error) => {
+        console.error('Failed to save cache lifetime:', error);
+        saved = previous;
+        input.value = String(previous);
+      },
+    );
+  };
+
+  input.addEventListener('change', handleChange);
+
+  onOptionsChange((changes) => {
+    if (changes.cacheTtlHours !== undefined) {
+      saved = changes.cacheTtlHours;
+      input.value = String(saved);
+    }
+  });
+}
 
 async function initializeOptions(): Promise<void> {
   const showEmojisCheckbox = document.getElementById('showEmojis') as HTMLInputElement | null;
@@ -19,7 +122,7 @@ async function initializeOptions(): Promise<void> {
 
   // Update options when checkboxes change
   const updateOptions = () => {
-    const newOptions: WormholeOptions = {
+    const newOptions: Partial<WormholeOptions> = {
       showEmojis: showEmojisCheckbox.checked,
       strictMode: strictModeCheckbox.checked,
     };
@@ -51,6 +154,13 @@ async function initializeOptions(): Promise<void> {
   };
 
   onOptionsChange(handleExternalChanges);
+
+  initializeOmniboxDefault(options);
+  initializeCacheTtl(options);
+  initializeServiceLayout(options);
+  initializeCustomServices(options.customServices);
+  initializeEndpoints(options);
+  initializeCacheInspector();
 }
 
 if (document.readyState === 'loading') {
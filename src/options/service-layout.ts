@@ -0,0 +1,155 @@
+import { setOption, onOptionsChange } from '../shared/options';
+import type { WormholeOptions } from '../shared/options';
+import { getAllServices, orderServiceKeys, type ServiceLayout } from '../shared/services';
+import type { CustomServiceDefinition } from '../shared/custom-services';
+
+/**
+ * Wires up the drag-to-reorder service list with visibility toggles on the options page.
+ */
+export function initializeServiceLayout(initial: Pick<WormholeOptions, 'customServices' | 'serviceLayout'>): void {
+  const list = document.getElementById('serviceLayoutList') as HTMLUListElement | null;
+  const resetBtn = document.getElementById('resetServiceLayout') as HTMLButtonElement | null;
+
+  if (!list || !resetBtn) {
+    console.error('Service layout elements not found');
+    return;
+  }
+
+  let customServices: CustomServiceDefinition[] = initial.customServices;
+  let layout: ServiceLayout = initial.serviceLayout;
+  let draggedKey: string | null = null;
+
+  const save = (next: ServiceLayout) => {
+    const previous = layout;
+    layout = next;
+    render();
+    void setOption('serviceLayout', next).match(
+      () => undefined,
+      (error) => {
+        console.error('Failed to save service layout:', error);
+        layout = previous;
+        render();
+      },
+    );
+  };
+
+  const currentOrder = (): string[] => orderServiceKeys(Object.keys(getAllServices(customServices)), layout.order);
+
+  const move = (key: string, targetKey: string, after: boolean) => {
+    if (key === targetKey) return;
+    const order = currentOrder().filter((k) => k !== key);
+    const targetIndex = order.indexOf(targetKey);
+    order.splice(after ? targetIndex + 1 : targetIndex, 0, key);
+    save({ ...layout, order });
+  };
+
+  const shift = (key: string, delta: number) => {
+    const order = currentOrder();
+    const index = order.indexOf(key);
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    save({ ...layout, order });
+  };
+
+  const setVisible = (key: string, visible: boolean) => {
+    const hidden = layout.hidden.filter((k) => k !== key);
+    if (!visible) hidden.push(key);
+    save({ ...layout, hidden });
+  };
+
+  const render = () => {
+    const services = getAllServices(customServices);
+    const hidden = new Set(layout.hidden);
+    list.replaceChildren();
+
+    for (const key of currentOrder()) {
+      const service = services[key];
+      const item = document.createElement('li');
+      item.className = 'service-layout-item';
+      item.draggable = true;
+      item.dataset.key = key;
+
+      const handle = document.createElement('span');
+      handle.className = 'drag-handle';
+      handle.textContent = '⠿';
+      handle.setAttribute('aria-hidden', 'true');
+
+      const label = document.createElement('label');
+      label.className = 'checkbox-label inline';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = !hidden.has(key);
+      checkbox.addEventListener('change', () => {
+        setVisible(key, checkbox.checked);
+      });
+      const text = document.createElement('span');
+      text.className = 'checkbox-text';
+      text.textContent = `${service.emoji} ${service.name}`;
+      label.append(checkbox, text);
+
+      const up = document.createElement('button');
+      up.type = 'button';
+      up.textContent = '↑';
+      up.title = `Move ${service.name} up`;
+      up.addEventListener('click', () => {
+        shift(key, -1);
+      });
+
+      const down = document.createElement('button');
+      down.type = 'button';
+      down.textContent = '↓';
+      down.title = `Move ${service.name} down`;
+      down.addEventListener('click', () => {
+        shift(key, 1);
+      });
+
+      item.append(handle, label, up, down);
+      list.appendChild(item);
+    }
+  };
+
+  list.addEventListener('dragstart', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLLIElement>('li.service-layout-item');
+    draggedKey = item?.dataset.key ?? null;
+    item?.classList.add('dragging');
+  });
+
+  list.addEventListener('dragover', (e) => {
+    if (draggedKey) e.preventDefault();
+  });
+
+  list.addEventListener('drop', (e) => {
+    e.preventDefault();
+    const target = (e.target as HTMLElement).closest<HTMLLIElement>('li.service-layout-item');
+    const targetKey = target?.dataset.key;
+    if (draggedKey && target && targetKey) {
+      const rect = target.getBoundingClientRect();
+      move(draggedKey, targetKey, e.clientY > rect.top + rect.height / 2);
+    }
+  });
+
+  list.addEventListener('dragend', () => {
+    draggedKey = null;
+    list.querySelector('.dragging')?.classList.remove('dragging');
+  });
+
+  resetBtn.addEventListener('click', () => {
+    save({ order: [], hidden: [] });
+  });
+
+  // Keep the list in sync with other options pages and custom service edits
+  onOptionsChange((changes: Partial<WormholeOptions>) => {
+    if (changes.customServices !== undefined) {
+      customServices = changes.customServices;
+    }
+    if (changes.serviceLayout !== undefined) {
+      layout = changes.serviceLayout;
+    }
+    if (changes.customServices !== undefined || changes.serviceLayout !== undefined) {
+      render();
+    }
+  });
+
+  render();
+}
@@ -0,0 +1,191 @@
+import { ResultAsync } from 'neverthrow';
+import type { DidDocumentView } from '../shared/types';
+import { isRecord } from '../shared/types';
+import { sendThroughPort } from '../shared/resolver-port';
+import type { PlcHistoryEvent } from '../shared/resolver';
+
+interface DidDocumentResponse {
+  success: boolean;
+  view?: DidDocumentView;
+  error?: string;
+}
+
+interface DocumentField {
+  label: string;
+  value: string;
+}
+
+function stringEntries(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+function recordEntries(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Flattens a DID document into labelled values. Documents are not validated here, so anything
+ * that is not a string is left out rather than shown as `[object Object]`.
+ */
+function describeDidDocument({ did, document, rotationKeys }: DidDocumentView): DocumentField[] {
+  const fields: DocumentField[] = [{ label: 'DID', value: typeof document.id === 'string' ? document.id : did }];
+
+  for (const aka of stringEntries(document.alsoKnownAs)) {
+    fields.push({ label: 'Also known as', value: aka });
+  }
+  for (const method of recordEntries(document.verificationMethod)) {
+    const key = method.publicKeyMultibase;
+    if (typeof key !== 'string') continue;
+    fields.push({ label: `Key ${typeof method.id === 'string' ? method.id : ''}`.trim(), value: key });
+  }
+  for (const service of recordEntries(document.service)) {
+    const endpoint = service.serviceEndpoint;
+    if (typeof endpoint !== 'string') continue;
+    fields.push({ label: `Service ${typeof service.id === 'string' ? service.id : ''}`.trim(), value: endpoint });
+  }
+  for (const key of rotationKeys ?? []) {
+    fields.push({ label: 'Rotation key', value: key });
+  }
+  return fields;
+}
+
+function hostOf(endpoint: string | null | undefined): string {
+  return endpoint ? new URL(endpoint).host : 'no PDS';
+}
+
+/**
+ * Describes one change from the PLC operation log in a sentence.
+ */
+function describeHistoryEvent(event: PlcHistoryEvent): string {
+  switch (event.kind) {
+    case 'handle':
+      if (event.previous === undefined) {
+        return event.handle ? `Created as @${event.handle}` : 'Created without a handle';
+      }
+      return event.handle ? `Handle changed to @${event.handle}` : 'Handle removed';
+    case 'pds':
+      return event.previous === undefined ?
+          `Hosted on ${hostOf(event.pds)}`
+        : `Moved from ${hostOf(event.previous)} to ${hostOf(event.pds)}`;
+    case 'rotationKeys':
+      return `${event.previous === undefined ? 'Rotation keys set' : 'Rotation keys changed'}: ${event.rotationKeys.length}`;
+    case 'tombstone':
+      return 'Identity deactivated';
+  }
+}
+
+function formatTimestamp(createdAt: string): string {
+  return `${new Date(createdAt).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function renderHistory(history: readonly PlcHistoryEvent[]): HTMLElement {
+  const section = document.createElement('section');
+  const heading = document.createElement('h3');
+  heading.textContent = 'History';
+
+  // Newest first: investigations usually start from the latest change
+  const list = document.createElement('ol');
+  list.className = 'identity-history';
+  for (const event of [...history].reverse()) {
+    const item = document.createElement('li');
+    const time = document.createElement('time');
+    time.dateTime = event.createdAt;
+    time.textContent = formatTimestamp(event.createdAt);
+    item.append(time, ` ${describeHistoryEvent(event)}`);
+    if (event.kind === 'rotationKeys') {
+      item.title = event.rotationKeys.join('\n');
+    }
+    list.appendChild(item);
+  }
+
+  section.append(heading, list);
+  return section;
+}
+
+function copyButton(label: string, getText: () => string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'identity-copy';
+  button.textContent = label;
+  const handleClick = () => {
+    void ResultAsync.fromPromise(navigator.clipboard.writeText(getText()), (error) => error).match(
+      () => {
+        button.textContent = 'Copied';
+        setTimeout(() => {
+          button.textContent = label;
+        }, 1000);
+      },
+      (error) => {
+        console.error('Failed to copy to clipboard:', error);
+      },
+    );
+  };
+  button.addEventListener('click', handleClick);
+  return button;
+}
+
+/**
+ * Wires up the expandable DID document panel, with the operation history for did:plc. The document is only fetched the first time the
+ * panel is opened; the service worker keeps it, so reopening the popup shows it right away.
+ */
+export function initializeIdentityPanel(did: string): void {
+  const panel = document.getElementById('identityPanel') as HTMLDetailsElement | null;
+  const body = document.getElementById('identityPanelBody') as HTMLDivElement | null;
+
+  if (!panel || !body) {
+    console.error('Identity panel elements not found');
+    return;
+  }
+
+  let requested = false;
+
+  const render = (view: DidDocumentView) => {
+    const list = document.createElement('dl');
+    list.className = 'identity-fields';
+    for (const field of describeDidDocument(view)) {
+      const term = document.createElement('dt');
+      term.textContent = field.label;
+
+      const value = document.createElement('dd');
+      const code = document.createElement('code');
+      code.textContent = field.value;
+      value.append(
+        code,
+        copyButton('Copy', () => field.value),
+      );
+      list.append(term, value);
+    }
+
+    const json = copyButton('Copy JSON', () => JSON.stringify(view.document, null, 2));
+    json.classList.add('identity-copy-json');
+    body.replaceChildren(list, ...(view.history?.length ? [renderHistory(view.history)] : []), json);
+  };
+
+  const load = () => {
+    body.textContent = 'Loading…';
+    void sendThroughPort<DidDocumentResponse>({ type: 'GET_DID_DOCUMENT', did }).match(
+      (response) => {
+        if (!response.success || !response.view) {
+          body.textContent = `Could not load the DID document: ${response.error ?? 'unknown error'}`;
+          requested = false;
+          return;
+        }
+        render(response.view);
+      },
+      (error) => {
+        console.error('GET_DID_DOCUMENT error', error);
+        body.textContent = 'Could not load the DID document.';
+        requested = false;
+      },
+    );
+  };
+
+  const handleToggle = () => {
+    if (!panel.open || requested) return;
+    requested = true;
+    load();
+  };
+
+  panel.addEventListener('toggle', handleToggle);
+  panel.hidden = false;
+}
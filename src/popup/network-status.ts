@@ -0,0 +1,42 @@
+import type { HostStatus } from '../shared/retry';
+import { sendMessage } from '../shared/messaging';
+
+interface NetworkStatusResponse {
+  success: boolean;
+  hosts?: HostStatus[];
+}
+
+function describeHost({ host, state, retryAt }: HostStatus): string {
+  const until = retryAt ? ` until ${new Date(retryAt).toLocaleTimeString()}` : '';
+  switch (state) {
+    case 'open':
+      return `⚠️ ${host} keeps failing; requests to it are paused${until}.`;
+    case 'half-open':
+      return `⚠️ ${host} has been failing; checking whether it is back.`;
+    case 'closed':
+      return `⚠️ ${host} asked for fewer requests; waiting${until}.`;
+  }
+}
+
+/**
+ * Asks the service worker which hosts it has stopped sending requests to, and says so below the
+ * destinations: lookups against those hosts fail right away instead of after their retries.
+ */
+export function showNetworkStatus(): void {
+  const container = document.getElementById('networkStatus');
+  if (!container) {
+    console.error('Network status element not found');
+    return;
+  }
+
+  void sendMessage<NetworkStatusResponse>({ type: 'GET_NETWORK_STATUS' }).match(
+    (response) => {
+      const hosts = response.hosts ?? [];
+      container.textContent = hosts.map(describeHost).join('\n');
+      container.hidden = !hosts.length;
+    },
+    (error) => {
+      console.error('GET_NETWORK_STATUS error', error);
+    },
+  );
+}
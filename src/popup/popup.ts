@@ -2,9 +2,34 @@ import { parseInput } from '../shared/parser';
 import { buildDestinations } from '../shared/services';
 import { loadOptions } from '../shared/options';
 import Debug from '../shared/debug';
-import type { BrowserWithTheme, DebugConfig, Destination, WindowWithDebug } from '../shared/types';
-import { ResultAsync } from 'neverthrow';
-import { runtimeError, type RuntimeError } from '../shared/errors';
+import type {
+  BrowserWithTheme,
+  DebugConfig,
+  Destination,
+  IdentityUpdateMessage,
+  WindowWithDebug,
+} from '../shared/types';
+import { isRecord } from '../shared/types';
+import type { HandleResolutionMethod } from '../shared/resolver';
+import type { ContentKind } from '../shared/content';
+import { contentNsid, contentRkey } from '../shared/content';
+import { PREVIEW_KINDS } from '../shared/preview';
+import { formatTidTimestamp } from '../shared/tid';
+import { sendThroughPort } from '../shared/resolver-port';
+import { initializeIdentityPanel } from './identity-panel';
+import { showProfileHeader } from './profile-header';
+import { showRecordPreview } from './record-preview';
+import { showNetworkStatus } from './network-status';
+
+const RESOLUTION_METHOD_LABELS: Record<HandleResolutionMethod, string> = {
+  dns: 'DNS TXT record',
+  'well-known': 'HTTPS well-known',
+  appview: 'AppView',
+  'did:web': 'did:web document',
+};
+
+// Content whose TID record key is worth showing as a creation time
+const CREATION_TIME_KINDS: readonly ContentKind[] = ['post', 'feed', 'list'];
 
 /**
  * Applies Firefox theme colors to the popup if available, falls back to CSS media query
@@ -125,24 +150,6 @@ async function applyTheme(): Promise<void> {
   }
 }
 
-/**
- * Sends a message to the runtime (service worker) and returns the response wrapped in a Result
- */
-function sendRuntimeMessage<T>(message: unknown): ResultAsync<T, RuntimeError> {
-  return ResultAsync.fromPromise(
-    new Promise<T>((resolve, reject) => {
-      chrome.runtime.sendMessage(message, (response) => {
-        if (chrome.runtime.lastError) {
-          reject(new Error(chrome.runtime.lastError.message));
-        } else {
-          resolve(response as T);
-        }
-      });
-    }),
-    (error) => runtimeError(error instanceof Error ? error.message : 'Unknown runtime error', error),
-  );
-}
-
 // Local type for list items
 
 /**
@@ -161,6 +168,14 @@ const domContentLoadedHandler = () => {
     const list = document.getElementById('dest') as HTMLUListElement;
     const emptyBtn = document.getElementById('emptyCacheBtn') as HTMLButtonElement;
     const debugInfo = document.getElementById('debugInfo') as HTMLDivElement;
+    const handleWarning = document.getElementById('handleWarning') as HTMLDivElement;
+    const recordCreated = document.getElementById('recordCreated') as HTMLDivElement;
+    const accountPds = document.getElementById('accountPds') as HTMLDivElement;
+
+    const showHandleWarning = (msg: string): void => {
+      handleWarning.textContent = msg;
+      handleWarning.hidden = false;
+    };
 
     // Close popup when a destination link is clicked (Firefox MV3 does not auto-close)
     list.addEventListener('click', (e: MouseEvent) => {
@@ -175,18 +190,25 @@ const domContentLoadedHandler = () => {
 
     const showStatus = (msg: string): void => {
       Debug.popup('Showing status:', msg);
-      list.innerHTML = `<li>${msg}</li>`;
+      const item = document.createElement('li');
+      item.textContent = msg;
+      list.replaceChildren(item);
+    };
+    // Labels and URLs may come from user-defined services, so they are never parsed as HTML
+    const createItem = ({ url, label }: Destination): HTMLLIElement => {
+      const item = document.createElement('li');
+      const link = document.createElement('a');
+      link.href = url;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.textContent = label;
+      item.appendChild(link);
+      return item;
     };
-    const createItem = ({ url, label }: Destination): string => `
-    <li>
-      <a href="${url}" target="_blank" rel="noopener noreferrer">
-        ${label}
-      </a>
-    </li>`;
     const render = (ds: Destination[]): void => {
       Debug.popup('Rendering destinations:', ds.length);
       if (ds.length) {
-        list.innerHTML = ds.map(createItem).join('');
+        list.replaceChildren(...Array.from(ds, createItem));
       } else {
         showStatus('No actions available');
       }
@@ -203,7 +225,7 @@ const domContentLoadedHandler = () => {
       return;
     }
 
-    const parseResult = parseInput(raw);
+    const parseResult = parseInput(raw, options.customServices);
     void parseResult.match(
       async (info) => {
         Debug.parsing('Parse result:', info);
@@ -212,16 +234,46 @@ const domContentLoadedHandler = () => {
           return;
         }
 
-        let ds = buildDestinations(info, options.showEmojis, options.strictMode);
+        // Decoded from the record key, so it is known before any lookup
+        if (info.tid && CREATION_TIME_KINDS.includes(info.content.kind)) {
+          recordCreated.textContent = `created ${formatTidTimestamp(info.tid)}`;
+          recordCreated.hidden = false;
+        }
+
+        let ds = buildDestinations(info, options);
         render(ds);
 
+        // A stale cache entry may be revalidated while the popup is open
+        const identityUpdateListener = (message: unknown) => {
+          if (!isRecord(message) || message.type !== 'IDENTITY_UPDATED') return;
+          const update = message as unknown as IdentityUpdateMessage;
+
+          if (info.did && update.previousDid === info.did) {
+            if (update.verified === false) {
+              showHandleWarning(`⚠️ Unverified handle: @${update.handle} does not resolve back to this account.`);
+            }
+            info.handle = update.verified === false ? null : update.handle;
+            debugInfo.textContent = update.handle ? `Handle changed to @${update.handle}` : 'Handle no longer resolves';
+          } else if (info.handle && update.previousHandle === info.handle && update.did) {
+            info.did = update.did;
+            debugInfo.textContent = `@${info.handle} now points to ${update.did}`;
+          } else {
+            return;
+          }
+
+          ds = buildDestinations(info, options);
+          render(ds);
+        };
+        chrome.runtime.onMessage.addListener(identityUpdateListener);
+
         if (info.did && !info.handle) {
           // Ask SW for a handle (from cache or resolved)
           showStatus('Resolving...');
 
-          const { handleToUse, errorStatusWasSet } = await sendRuntimeMessage<{
+          const { handleToUse, errorStatusWasSet } = await sendThroughPort<{
             handle: string | null;
             fromCache: boolean;
+            verified?: boolean;
           }>({
             type: 'GET_HANDLE',
             did: info.did,
@@ -232,6 +284,11 @@ const domContentLoadedHandler = () => {
                 debugInfo.textContent =
                   response.fromCache ? 'handle was fetched from cache' : 'was forced to resolve handle';
               }
+              if (handle && response.verified === false) {
+                // Like Bluesky's handle.invalid: keep using the DID so links can't point at another account
+                showHandleWarning(`⚠️ Unverified handle: @${handle} does not resolve back to this account.`);
+                return { handleToUse: null, errorStatusWasSet: false };
+              }
               return { handleToUse: handle, errorStatusWasSet: false };
             },
             (error) => {
@@ -244,7 +301,7 @@ const domContentLoadedHandler = () => {
           // After attempting to get handle from cache or by fetching:
           if (handleToUse) {
             info.handle = handleToUse;
-            ds = buildDestinations(info, options.showEmojis, options.strictMode); // Re-build destinations with the handle
+            ds = buildDestinations(info, options); // Re-build destinations with the handle
             render(ds); // Re-render the list
           } else {
             // Handle was not obtained. An error status might have already been set.
@@ -259,13 +316,30 @@ const domContentLoadedHandler = () => {
         if (info.handle && !info.did) {
           showStatus('Resolving...');
 
-          const { didToUse, errorStatusWasSet } = await sendRuntimeMessage<{ did: string | null; fromCache: boolean }>({
+          const { didToUse, errorStatusWasSet } = await sendThroughPort<{
+            did: string | null;
+            fromCache: boolean;
+            method?: HandleResolutionMethod;
+            verified?: boolean;
+            currentHandle?: string;
+          }>({
             type: 'GET_DID',
             handle: info.handle,
           }).match(
             (response) => {
               const did = response.did;
-              if (did && import.meta.env.MODE === 'development') {
+              if (did && response.verified === false) {
+                showHandleWarning(`⚠️ Unverified handle: @${info.handle} is not claimed by the account it points to.`);
+              }
+              if (did && response.currentHandle) {
+                showHandleWarning(
+                  `@${info.handle} is a previous handle of this account, which is now @${response.currentHandle}.`,
+                );
+                info.handle = response.currentHandle;
+              }
+              if (did && response.method) {
+                debugInfo.textContent = `Handle resolved via ${RESOLUTION_METHOD_LABELS[response.method]}`;
+              } else if (did && import.meta.env.MODE === 'development') {
                 debugInfo.textContent = response.fromCache ? 'did was fetched from cache' : 'was forced to resolve did';
               }
               return { didToUse: did, errorStatusWasSet: false };
@@ -279,16 +353,50 @@ const domContentLoadedHandler = () => {
 
           if (didToUse) {
             info.did = didToUse;
-            ds = buildDestinations(info, options.showEmojis, options.strictMode);
+            ds = buildDestinations(info, options);
             render(ds);
           } else if (!ds.length && !errorStatusWasSet) {
             showStatus('No actions available');
           }
         }
+
+        // Where the account is hosted, from its DID document; PDS links need it
+        if (info.did) {
+          showProfileHeader(info.did);
+          initializeIdentityPanel(info.did);
+          if (PREVIEW_KINDS.includes(info.content.kind)) {
+            showRecordPreview(`at://${info.did}/${contentNsid(info.content)}/${contentRkey(info.content)}`);
+          }
+          await sendThroughPort<{ pds?: string; signingKey?: string }>({
+            type: 'GET_IDENTITY',
+            did: info.did,
+          }).match(
+            (response) => {
+              if (!response.pds) return;
+              accountPds.textContent = `Hosted on ${new URL(response.pds).host}`;
+              accountPds.title = response.signingKey ? `Signing key: ${response.signingKey}` : '';
+              accountPds.hidden = false;
+              if (!info.pds) {
+                info.pds = response.pds;
+                ds = buildDestinations(info, options);
+                render(ds);
+              }
+            },
+            (error) => {
+              console.error('GET_IDENTITY error', error);
+            },
+          );
+        }
+
+        // Lookups above fail fast against hosts the service worker has stopped asking
+        showNetworkStatus();
       },
       (error) => {
         console.error('Parse error in popup:', error);
-        showStatus('Error parsing URL or input.');
+        // Validation messages name the part of the input that is malformed
+        showStatus(
+          error.type === 'VALIDATION_ERROR' ? `Invalid input: ${error.message}` : 'Error parsing URL or input.',
+        );
       },
     );
 
@@ -0,0 +1,96 @@
+import type { CachedProfile } from '../shared/cache';
+import { sendThroughPort } from '../shared/resolver-port';
+
+interface ProfileResponse {
+  success: boolean;
+  profile?: CachedProfile;
+  offline?: boolean;
+  error?: string;
+}
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+function formatCount(count: number | undefined, singular: string, plural: string): string | null {
+  return count === undefined ? null : `${compactNumber.format(count)} ${count === 1 ? singular : plural}`;
+}
+
+function renderProfile(header: HTMLElement, profile: CachedProfile, offline: boolean): void {
+  const avatar = document.createElement('img');
+  avatar.className = 'profile-avatar';
+  avatar.alt = '';
+  if (profile.avatar) {
+    avatar.src = profile.avatar;
+    // Saved avatar URLs don't load offline; an empty circle is shown instead
+    avatar.addEventListener('error', () => {
+      avatar.removeAttribute('src');
+    });
+  }
+
+  const text = document.createElement('div');
+  text.className = 'profile-text';
+
+  const name = document.createElement('div');
+  name.className = 'profile-name';
+  name.textContent = profile.displayName ?? (profile.handleInvalid ? profile.did : profile.handle);
+
+  const handle = document.createElement('div');
+  handle.className = 'profile-handle';
+  handle.textContent = profile.handleInvalid ? '⚠️ Invalid handle' : `@${profile.handle}`;
+
+  const counts = document.createElement('div');
+  counts.className = 'profile-counts';
+  counts.textContent = [
+    formatCount(profile.followersCount, 'follower', 'followers'),
+    formatCount(profile.postsCount, 'post', 'posts'),
+  ]
+    .filter((part) => part !== null)
+    .join(' · ');
+
+  text.append(name, handle, counts);
+
+  if (profile.labels.length) {
+    const labels = document.createElement('ul');
+    labels.className = 'profile-labels';
+    for (const value of profile.labels) {
+      const label = document.createElement('li');
+      label.textContent = value;
+      labels.appendChild(label);
+    }
+    text.appendChild(labels);
+  }
+
+  if (offline) {
+    const note = document.createElement('div');
+    note.className = 'profile-offline';
+    note.textContent = `Offline: profile saved ${new Date(profile.fetchedAt).toLocaleString()}`;
+    text.appendChild(note);
+  }
+
+  header.replaceChildren(avatar, text);
+  header.hidden = false;
+}
+
+/**
+ * Fetches the account's profile through the service worker and shows it above the destinations,
+ * so it is clear which account the links lead to. Nothing is shown when there is no profile.
+ */
+export function showProfileHeader(did: string): void {
+  const header = document.getElementById('profileHeader');
+  if (!header) {
+    console.error('Profile header element not found');
+    return;
+  }
+
+  void sendThroughPort<ProfileResponse>({ type: 'GET_PROFILE', did }).match(
+    (response) => {
+      if (!response.success || !response.profile) {
+        console.error('GET_PROFILE error', response.error);
+        return;
+      }
+      renderProfile(header, response.profile, response.offline === true);
+    },
+    (error) => {
+      console.error('GET_PROFILE error', error);
+    },
+  );
+}
@@ -0,0 +1,68 @@
+import type { RecordPreview } from '../shared/preview';
+import { sendThroughPort } from '../shared/resolver-port';
+
+interface PreviewResponse {
+  success: boolean;
+  preview?: RecordPreview;
+  error?: string;
+}
+
+function line(className: string, text: string, title?: string): HTMLDivElement {
+  const element = document.createElement('div');
+  element.className = className;
+  element.textContent = text;
+  if (title) element.title = title;
+  return element;
+}
+
+function renderPreview(container: HTMLElement, preview: RecordPreview): void {
+  container.classList.toggle('record-preview-missing', preview.kind === 'not-found');
+
+  switch (preview.kind) {
+    case 'not-found':
+      container.replaceChildren(line('record-preview-title', 'Record not found or deleted'));
+      break;
+    case 'post': {
+      const parts: HTMLElement[] = [];
+      if (preview.replyTo) parts.push(line('record-preview-context', '↩ Reply to a post', preview.replyTo));
+      if (preview.quotes) parts.push(line('record-preview-context', '❝ Quotes a record', preview.quotes));
+      if (preview.text) parts.push(line('record-preview-text', preview.text));
+      if (preview.embed) parts.push(line('record-preview-context', `📎 With ${preview.embed}`));
+      container.replaceChildren(...parts);
+      break;
+    }
+    case 'feed':
+    case 'list':
+      container.replaceChildren(
+        line('record-preview-title', `${preview.kind === 'feed' ? 'Feed' : 'List'}: ${preview.name}`),
+        ...(preview.description ? [line('record-preview-text', preview.description)] : []),
+      );
+      break;
+  }
+  container.hidden = !container.childElementCount;
+}
+
+/**
+ * Fetches a preview of the post, feed or list through the service worker and shows it above the
+ * destinations, including when the record no longer exists.
+ */
+export function showRecordPreview(atUri: string): void {
+  const container = document.getElementById('recordPreview');
+  if (!container) {
+    console.error('Record preview element not found');
+    return;
+  }
+
+  void sendThroughPort<PreviewResponse>({ type: 'GET_RECORD_PREVIEW', atUri }).match(
+    (response) => {
+      if (!response.success || !response.preview) {
+        console.error('GET_RECORD_PREVIEW error', response.error);
+        return;
+      }
+      renderPreview(container, response.preview);
+    },
+    (error) => {
+      console.error('GET_RECORD_PREVIEW error', error);
+    },
+  );
+}
@@ -1,7 +1,12 @@
-import { ResultAsync, ok, err } from 'neverthrow';
+import { ResultAsync, ok, err, okAsync } from 'neverthrow';
+import type { Result } from 'neverthrow';
 import type { WormholeError } from './errors';
 import { cacheError } from './errors';
 import { logError } from './debug';
+import { isValidDid, isValidHandle, validateDid, validateHandle } from './validation';
+import { parseActorProfile } from './resolver';
+import { isRecord } from './types';
+import type { ActorProfile } from './resolver';
 
 export class BidirectionalMap<K1, K2> {
   private forwardMap = new Map<K1, K2>();
@@ -54,91 +59,258 @@ export class BidirectionalMap<K1, K2> {
   }
 }
 
-interface CacheEntry {
+/**
+ * Optional metadata stored alongside a DID↔handle pair.
+ */
+export interface CacheEntryMetadata {
+  // Endpoint the pair was resolved through, used to invalidate entries when it changes
+  source?: string;
+  // Result of the handle → DID → alsoKnownAs round trip; absent when it was never checked
+  verified?: boolean;
+  // Where the account is hosted and its signing key, from the DID document
+  pds?: string;
+  signingKey?: string;
+  // Handles the DID used before, from the PLC operation log
+  pastHandles?: string[];
+  // Last profile fetched from the AppView, kept to show when offline
+  profile?: CachedProfile;
+}
+
+export interface CachedProfile extends ActorProfile {
+  fetchedAt: number;
+}
+
+/**
+ * A cached pair with its bookkeeping, as listed by the cache inspector.
+ */
+export interface CacheEntryInfo extends CacheEntryMetadata {
+  did: string;
+  handle: string;
+  lastAccessed: number;
+  resolvedAt: number;
+}
+
+/**
+ * Lookup counters since the service worker started; they are not persisted.
+ */
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+interface CacheEntry extends CacheEntryMetadata {
   handle: string;
   lastAccessed: number;
+  // When the pair was last resolved or confirmed; entries older than the TTL are stale
+  resolvedAt: number;
+}
+
+type EntryState = Omit<CacheEntry, 'handle'>;
+
+/**
+ * Storage layout history:
+ * - version 1: the entry map stored directly under the storage key, without `resolvedAt`
+ * - version 2: `{ version, entries }` under the storage key
+ * - version 3: `{ version, shardCount }` under the storage key, entries split across `<key>:<shard>` keys
+ */
+const CACHE_FORMAT_VERSION = 3;
+const SHARD_COUNT = 32;
+
+interface CacheManifest {
+  version: number;
+  shardCount: number;
+}
+
+/**
+ * FNV-1a hash of a DID, used to pick its shard.
+ */
+function shardOf(did: string, shardCount: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < did.length; i++) {
+    hash ^= did.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % shardCount;
 }
 
 export class DidHandleCache {
   private cache = new BidirectionalMap<string, string>();
-  private lastAccessTime = new Map<string, number>();
+  private entries = new Map<string, EntryState>();
+  // Past handle → DID, so links with an old handle still resolve
+  private pastHandleIndex = new Map<string, string>();
   private maxStorageSize: number;
   private static readonly STORAGE_KEY = 'wormhole-cache';
   private static readonly DEFAULT_MAX_SIZE = 4 * 1024 * 1024; // 4MB
-
-  constructor(maxStorageSize: number = DidHandleCache.DEFAULT_MAX_SIZE) {
+  private static readonly DEFAULT_TTL = 24 * 60 * 60 * 1000; // 24h
+  private static readonly DEFAULT_FLUSH_DELAY = 1000; // ms
+  private static readonly MAX_FLUSH_DELAY_FACTOR = 5;
+  private ttl: number;
+  private hits = 0;
+  private misses = 0;
+
+  // Writes are batched per shard: changes mark their shard dirty and a debounced flush rewrites only those
+  private flushDelay: number;
+  private dirtyShards = new Set<number>();
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  private firstDirtyAt: number | undefined;
+  private pendingFlush: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    maxStorageSize: number = DidHandleCache.DEFAULT_MAX_SIZE,
+    ttl: number = DidHandleCache.DEFAULT_TTL,
+    flushDelay: number = DidHandleCache.DEFAULT_FLUSH_DELAY,
+  ) {
     this.maxStorageSize = maxStorageSize;
+    this.ttl = ttl;
+    this.flushDelay = flushDelay;
+  }
+
+  setTtl(ttl: number): void {
+    this.ttl = ttl;
   }
 
   load(): ResultAsync<void, WormholeError> {
-    return ResultAsync.fromPromise(chrome.storage.local.get(DidHandleCache.STORAGE_KEY), (e) =>
+    const key = DidHandleCache.STORAGE_KEY;
+    return ResultAsync.fromPromise(chrome.storage.local.get(key), (e) =>
       cacheError('Failed to load cache from storage', 'load', e),
-    )
-      .andThen((result) => {
-        const data: unknown = result[DidHandleCache.STORAGE_KEY];
+    ).andThen((result) => {
+      const data: unknown = result[key];
 
-        if (!data || typeof data !== 'object') {
-          return ok(undefined);
-        }
+      if (!data || typeof data !== 'object') {
+        return okAsync(undefined);
+      }
+
+      const version = (data as Partial<CacheManifest>).version;
+      if (version === CACHE_FORMAT_VERSION) {
+        return this.loadShards((data as CacheManifest).shardCount);
+      }
+
+      // Older formats keep every entry under one key: import them and rewrite as shards
+      const legacy = typeof version !== 'number';
+      const storedEntries = legacy ? data : (data as { entries?: unknown }).entries;
+      this.importEntries(storedEntries, legacy);
+      this.markAllDirty();
+      return this.flush().orElse((error) => {
+        logError('CACHE', error, { operation: 'migrate' });
+        return ok(undefined);
+      });
+    });
+  }
 
-        try {
-          for (const [did, entry] of Object.entries(data as Record<string, CacheEntry>)) {
-            if (this.isValidDid(did) && this.isValidCacheEntry(entry)) {
-              this.cache.set(did, entry.handle);
-              this.lastAccessTime.set(did, entry.lastAccessed);
-            }
-          }
+  private loadShards(shardCount: number): ResultAsync<void, WormholeError> {
+    const keys = Array.from({ length: shardCount }, (_, i) => this.shardKey(i));
+    return ResultAsync.fromPromise(chrome.storage.local.get(keys), (e) =>
+      cacheError('Failed to load cache from storage', 'load', e),
+    ).andThen((shards) => {
+      for (const shardKey of keys) {
+        this.importEntries(shards[shardKey], false);
+      }
+      if (shardCount === SHARD_COUNT) {
+        return okAsync(undefined);
+      }
+
+      // Shard count changed between versions: redistribute and drop keys that are no longer used
+      this.markAllDirty();
+      const unused = keys.slice(SHARD_COUNT);
+      return this.flush()
+        .andThen(() =>
+          ResultAsync.fromPromise(chrome.storage.local.remove(unused), (e) =>
+            cacheError('Failed to remove unused cache shards', 'load', e),
+          ),
+        )
+        .orElse((error) => {
+          logError('CACHE', error, { operation: 'reshard' });
           return ok(undefined);
-        } catch (error: unknown) {
-          const err = cacheError('Failed to parse cache data', 'load', error);
-          logError('CACHE', err);
-          return ok(undefined); // Continue with empty cache on parse errors
+        });
+    });
+  }
+
+  /**
+   * Adds stored entries to memory, skipping invalid ones. Version 1 entries have no `resolvedAt`
+   * and are imported as stale so they get revalidated.
+   */
+  private importEntries(stored: unknown, legacy: boolean): void {
+    if (!stored || typeof stored !== 'object') {
+      return;
+    }
+
+    try {
+      for (const [did, raw] of Object.entries(stored)) {
+        const entry: unknown = legacy && typeof raw === 'object' ? { ...raw, resolvedAt: 0 } : raw;
+        if (isValidDid(did) && this.isValidCacheEntry(entry)) {
+          const { handle, ...state } = entry;
+          this.cache.set(did, handle);
+          this.entries.set(did, state);
+          this.indexPastHandles(did, undefined, state.pastHandles);
         }
-      })
-      .map(() => undefined);
+      }
+    } catch (error: unknown) {
+      // Continue with whatever was imported on parse errors
+      logError('CACHE', cacheError('Failed to parse cache data', 'load', error));
+    }
   }
 
-  set(did: string, handle: string): ResultAsync<void, WormholeError> {
+  /**
+   * Stores a pair in memory and schedules it to be written. Storage failures surface from `flush()`;
+   * the entry stays in memory and is retried on the next flush. Callers that need the pair saved
+   * flush afterwards.
+   */
+  set(did: string, handle: string, metadata: CacheEntryMetadata = {}): ResultAsync<void, never> {
     // Validation errors are programmer errors - keep as throws
-    if (!this.isValidDid(did)) {
-      throw new Error('Invalid DID format');
+    const invalid = validateDid(did)
+      .andThen(() => validateHandle(handle))
+      .match(
+        () => null,
+        (error) => error,
+      );
+    if (invalid) {
+      throw new Error(`Invalid ${invalid.field === 'did' ? 'DID' : 'handle'} format: ${invalid.message}`);
     }
 
-    if (!this.isValidHandle(handle)) {
-      throw new Error('Invalid handle format');
+    // The handle may move from another DID, which then loses its entry
+    const previousOwner = this.cache.getBySecond(handle);
+    if (previousOwner !== undefined && previousOwner !== did) {
+      this.indexPastHandles(previousOwner, this.entries.get(previousOwner)?.pastHandles, undefined);
+      this.entries.delete(previousOwner);
+      this.markDirty(previousOwner);
     }
 
-    const previousHandle = this.cache.getByFirst(did);
-    const previousLastAccessed = this.lastAccessTime.get(did);
-
-    // Update cache immediately
+    // Past handles and the profile come from separate lookups and survive re-resolving the pair
+    const previous = this.entries.get(did);
+    const previousPastHandles = previous?.pastHandles;
+    const pastHandles = metadata.pastHandles ?? previousPastHandles;
+    const profile = metadata.profile ?? previous?.profile;
+    // The rest is about the pair, so it is kept for the same handle unless the new metadata replaces it
+    const kept = this.cache.getByFirst(did) === handle ? previous : undefined;
+    const given = Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined),
+    ) as CacheEntryMetadata;
+
+    const now = Date.now();
     this.cache.set(did, handle);
-    this.lastAccessTime.set(did, Date.now());
+    this.entries.set(did, {
+      ...kept,
+      lastAccessed: now,
+      resolvedAt: now,
+      ...given,
+      ...(pastHandles && { pastHandles }),
+      ...(profile && { profile }),
+    });
+    this.indexPastHandles(did, previousPastHandles, pastHandles);
+    this.markDirty(did);
     this.checkSizeAndEvict();
 
-    // Attempt to persist - if it fails, rollback and return error
-    return this.persist().orElse((error) => {
-      // Rollback on persistence failure
-      if (previousHandle !== undefined) {
-        this.cache.set(did, previousHandle);
-        if (previousLastAccessed !== undefined) {
-          this.lastAccessTime.set(did, previousLastAccessed);
-        }
-      } else {
-        const currentHandle = this.cache.getByFirst(did);
-        if (currentHandle) {
-          this.cache.delete(did, currentHandle);
-        }
-        this.lastAccessTime.delete(did);
-      }
-      return err(error);
-    });
+    return okAsync(undefined);
   }
 
   getHandle(did: string): string | undefined {
     const handle = this.cache.getByFirst(did);
     if (handle !== undefined) {
+      this.hits++;
       this.updateLastAccessed(did);
+    } else {
+      this.misses++;
     }
     return handle;
   }
@@ -146,17 +318,160 @@ export class DidHandleCache {
   getDid(handle: string): string | undefined {
     const did = this.cache.getBySecond(handle);
     if (did !== undefined) {
+      this.hits++;
       this.updateLastAccessed(did);
+    } else {
+      this.misses++;
     }
     return did;
   }
 
+  /**
+   * Finds the DID that used to have a handle. Unlike `getDid`, this is a fallback for handles
+   * that no longer resolve and does not count towards the hit rate.
+   */
+  getDidForPastHandle(handle: string): string | undefined {
+    const did = this.pastHandleIndex.get(handle.toLowerCase());
+    return did !== undefined && this.entries.has(did) ? did : undefined;
+  }
+
+  /**
+   * Records the handles a cached DID used before. Does nothing when the DID is not cached.
+   */
+  setPastHandles(did: string, pastHandles: readonly string[]): void {
+    const entry = this.entries.get(did);
+    if (!entry) return;
+    const previous = entry.pastHandles;
+    entry.pastHandles = pastHandles.filter(isValidHandle);
+    this.indexPastHandles(did, previous, entry.pastHandles);
+    this.markDirty(did);
+  }
+
+  /**
+   * Stores the profile of a cached DID. Does nothing when the DID is not cached.
+   */
+  setProfile(did: string, profile: CachedProfile): void {
+    const entry = this.entries.get(did);
+    if (!entry) return;
+    entry.profile = profile;
+    this.markDirty(did);
+    this.checkSizeAndEvict();
+  }
+
+  /**
+   * Whether an entry was resolved longer ago than the TTL. Stale entries are still served,
+   * but callers should revalidate them.
+   */
+  isStale(did: string): boolean {
+    const entry = this.entries.get(did);
+    return entry !== undefined && Date.now() - entry.resolvedAt >= this.ttl;
+  }
+
+  /**
+   * Returns the metadata of an entry without counting as an access.
+   */
+  getMetadata(did: string): CacheEntryMetadata | undefined {
+    const entry = this.entries.get(did);
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      ...(entry.source !== undefined && { source: entry.source }),
+      ...(entry.verified !== undefined && { verified: entry.verified }),
+      ...(entry.pds !== undefined && { pds: entry.pds }),
+      ...(entry.signingKey !== undefined && { signingKey: entry.signingKey }),
+      ...(entry.pastHandles !== undefined && { pastHandles: entry.pastHandles }),
+      ...(entry.profile !== undefined && { profile: entry.profile }),
+    };
+  }
+
+  /**
+   * Lists all entries without counting as an access.
+   */
+  listEntries(): CacheEntryInfo[] {
+    const list: CacheEntryInfo[] = [];
+    for (const [did, entry] of this.entries) {
+      const handle = this.cache.getByFirst(did);
+      if (handle !== undefined) {
+        list.push({ did, handle, ...entry });
+      }
+    }
+    return list;
+  }
+
+  /**
+   * Returns a single entry without counting as an access.
+   */
+  getEntry(did: string): CacheEntryInfo | undefined {
+    const entry = this.entries.get(did);
+    const handle = this.cache.getByFirst(did);
+    return entry && handle !== undefined ? { did, handle, ...entry } : undefined;
+  }
+
+  /**
+   * Removes a single entry and writes the change. Resolves to whether the entry existed.
+   */
+  delete(did: string): ResultAsync<boolean, WormholeError> {
+    if (!this.entries.has(did)) {
+      return okAsync(false);
+    }
+    this.removeEntry(did);
+    return this.flush().map(() => true);
+  }
+
+  get stats(): CacheStats {
+    return { entries: this.cache.size, hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Bytes the cache takes up in storage. Falls back to the estimate where `getBytesInUse` is unavailable.
+   */
+  bytesInUse(): ResultAsync<number, WormholeError> {
+    // Not declared by Firefox's storage.local typings
+    const storage = chrome.storage.local as Partial<Pick<chrome.storage.LocalStorageArea, 'getBytesInUse'>>;
+    if (typeof storage.getBytesInUse !== 'function') {
+      return okAsync(this.estimatedStorageSize);
+    }
+
+    return ResultAsync.fromPromise(chrome.storage.local.getBytesInUse(this.storageKeys()), (e) =>
+      cacheError('Failed to measure cache storage', 'bytesInUse', e),
+    );
+  }
+
+  /**
+   * Removes entries resolved through an endpoint that is no longer in use.
+   * Entries without a recorded source (e.g. pairs seen together in a URL) are kept.
+   */
+  invalidateSources(activeSources: readonly string[]): ResultAsync<number, WormholeError> {
+    const active = new Set(activeSources);
+    let removed = 0;
+
+    for (const [did, entry] of this.entries) {
+      if (entry.source === undefined || active.has(entry.source)) continue;
+      this.removeEntry(did);
+      removed++;
+    }
+
+    if (!removed) {
+      return okAsync(0);
+    }
+    return this.flush().map(() => removed);
+  }
+
   clear(): ResultAsync<void, WormholeError> {
     this.cache.clear();
-    this.lastAccessTime.clear();
-    return ResultAsync.fromPromise(chrome.storage.local.remove(DidHandleCache.STORAGE_KEY), (e) =>
-      cacheError('Failed to clear cache from storage', 'clear', e),
-    ).map(() => undefined);
+    this.entries.clear();
+    this.pastHandleIndex.clear();
+    this.cancelScheduledFlush();
+    this.dirtyShards.clear();
+
+    // Wait for a write in progress so it cannot recreate the removed keys
+    const keys = this.storageKeys();
+    const run = this.pendingFlush.then(() => chrome.storage.local.remove(keys));
+    this.pendingFlush = run.catch(() => undefined);
+    return ResultAsync.fromPromise(run, (e) => cacheError('Failed to clear cache from storage', 'clear', e)).map(
+      () => undefined,
+    );
   }
 
   get size(): number {
@@ -171,12 +486,11 @@ export class DidHandleCache {
     const sampleData: Record<string, CacheEntry> = {};
 
     let count = 0;
-    for (const did of this.lastAccessTime.keys()) {
+    for (const [did, entry] of this.entries) {
       const handle = this.cache.getByFirst(did);
-      const lastAccessed = this.lastAccessTime.get(did);
 
-      if (handle && lastAccessed) {
-        sampleData[did] = { handle, lastAccessed };
+      if (handle) {
+        sampleData[did] = { handle, ...entry };
         count++;
         if (count >= 3) break;
       }
@@ -192,68 +506,168 @@ export class DidHandleCache {
     return Math.round(avgEntrySize * this.cache.size * 1.1);
   }
 
-  private updateLastAccessed(did: string): void {
-    this.lastAccessTime.set(did, Date.now());
+  /**
+   * Whether changes are waiting to be written.
+   */
+  get hasPendingWrites(): boolean {
+    return this.dirtyShards.size > 0;
+  }
 
-    // Fire-and-forget persistence with error logging
-    void this.persist().match(
-      () => {
-        // Success - no action needed
-      },
-      (error) => {
-        logError('CACHE', error, { operation: 'updateLastAccessed', did });
-      },
-    );
+  /**
+   * Writes all dirty shards now. Call before the service worker is suspended.
+   * Shards whose write fails stay dirty and are retried on the next flush.
+   */
+  flush(): ResultAsync<void, WormholeError> {
+    this.cancelScheduledFlush();
+
+    // Chain onto any write in progress so shards are never written out of order
+    const run = this.pendingFlush.then(() => this.writeDirtyShards());
+    this.pendingFlush = run;
+    return new ResultAsync(run);
   }
 
-  private checkSizeAndEvict(): void {
-    const currentSize = this.estimatedStorageSize;
+  private async writeDirtyShards(): Promise<Result<void, WormholeError>> {
+    if (!this.dirtyShards.size) {
+      return ok(undefined);
+    }
 
-    if (currentSize > this.maxStorageSize * 0.8) {
-      this.evictOldestEntries();
+    const shards = new Set(this.dirtyShards);
+    this.dirtyShards.clear();
+    this.firstDirtyAt = undefined;
+
+    const manifest: CacheManifest = { version: CACHE_FORMAT_VERSION, shardCount: SHARD_COUNT };
+    const shardData = new Map<number, Record<string, CacheEntry>>();
+    for (const shard of shards) {
+      shardData.set(shard, {});
+    }
+    for (const [did, entry] of this.entries) {
+      const data = shardData.get(shardOf(did, SHARD_COUNT));
+      const handle = this.cache.getByFirst(did);
+      if (data && handle) {
+        data[did] = { handle, ...entry };
+      }
+    }
+
+    const data: Record<string, unknown> = { [DidHandleCache.STORAGE_KEY]: manifest };
+    for (const [shard, entries] of shardData) {
+      data[this.shardKey(shard)] = entries;
+    }
+
+    try {
+      await chrome.storage.local.set(data);
+      return ok(undefined);
+    } catch (e: unknown) {
+      for (const shard of shards) {
+        this.dirtyShards.add(shard);
+      }
+      return err(cacheError('Failed to persist cache to storage', 'persist', e));
     }
   }
 
-  evictOldestEntries(): void {
-    const entries = Array.from(this.lastAccessTime.entries()).sort(([, a], [, b]) => a - b);
+  private shardKey(shard: number): string {
+    return `${DidHandleCache.STORAGE_KEY}:${shard}`;
+  }
 
-    const entriesToRemove = Math.ceil(entries.length * 0.3);
+  private storageKeys(): string[] {
+    return [DidHandleCache.STORAGE_KEY, ...Array.from({ length: SHARD_COUNT }, (_, i) => this.shardKey(i))];
+  }
 
-    for (let i = 0; i < entriesToRemove && i < entries.length; i++) {
-      const [did] = entries[i];
-      const handle = this.cache.getByFirst(did);
+  private markDirty(did: string): void {
+    this.dirtyShards.add(shardOf(did, SHARD_COUNT));
+    this.scheduleFlush();
+  }
 
-      if (handle) {
-        this.cache.delete(did, handle);
-        this.lastAccessTime.delete(did);
-      }
+  private markAllDirty(): void {
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+      this.dirtyShards.add(shard);
     }
   }
 
-  private persist(): ResultAsync<void, WormholeError> {
-    const data: Record<string, CacheEntry> = {};
+  /**
+   * Debounces the next flush. A steady stream of changes still flushes once the first
+   * unwritten change is `MAX_FLUSH_DELAY_FACTOR` delays old.
+   */
+  private scheduleFlush(): void {
+    const now = Date.now();
+    this.firstDirtyAt ??= now;
+    const deadline = this.firstDirtyAt + this.flushDelay * DidHandleCache.MAX_FLUSH_DELAY_FACTOR;
+
+    this.cancelScheduledFlush();
+    this.flushTimer = setTimeout(
+      () => {
+        this.flushTimer = undefined;
+        void this.flush().match(
+          () => undefined,
+          (error) => {
+            logError('CACHE', error, { operation: 'flush' });
+          },
+        );
+      },
+      Math.max(0, Math.min(this.flushDelay, deadline - now)),
+    );
+  }
 
-    for (const [did, lastAccessed] of this.lastAccessTime.entries()) {
-      const handle = this.cache.getByFirst(did);
-      if (handle) {
-        data[did] = { handle, lastAccessed };
+  private cancelScheduledFlush(): void {
+    if (this.flushTimer !== undefined) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  private removeEntry(did: string): void {
+    const handle = this.cache.getByFirst(did);
+    if (handle !== undefined) {
+      this.cache.delete(did, handle);
+    }
+    this.indexPastHandles(did, this.entries.get(did)?.pastHandles, undefined);
+    this.entries.delete(did);
+    this.markDirty(did);
+  }
+
+  /**
+   * Replaces the past handles indexed for a DID. Another DID may have indexed the same handle
+   * since, so only handles still pointing at this DID are removed.
+   */
+  private indexPastHandles(
+    did: string,
+    previous: readonly string[] | undefined,
+    pastHandles: readonly string[] | undefined,
+  ): void {
+    for (const handle of previous ?? []) {
+      if (this.pastHandleIndex.get(handle.toLowerCase()) === did) {
+        this.pastHandleIndex.delete(handle.toLowerCase());
       }
     }
+    for (const handle of pastHandles ?? []) {
+      this.pastHandleIndex.set(handle.toLowerCase(), did);
+    }
+  }
 
-    return ResultAsync.fromPromise(
-      chrome.storage.local.set({
-        [DidHandleCache.STORAGE_KEY]: data,
-      }),
-      (e) => cacheError('Failed to persist cache to storage', 'persist', e),
-    ).map(() => undefined);
+  private updateLastAccessed(did: string): void {
+    const entry = this.entries.get(did);
+    if (entry) {
+      entry.lastAccessed = Date.now();
+      this.markDirty(did);
+    }
   }
 
-  private isValidDid(did: string): boolean {
-    return typeof did === 'string' && did.length > 0 && (did.startsWith('did:plc:') || did.startsWith('did:web:'));
+  private checkSizeAndEvict(): void {
+    const currentSize = this.estimatedStorageSize;
+
+    if (currentSize > this.maxStorageSize * 0.8) {
+      this.evictOldestEntries();
+    }
   }
 
-  private isValidHandle(handle: string): boolean {
-    return typeof handle === 'string' && handle.length > 0 && !handle.includes('..') && /^[a-zA-Z0-9.-]+$/.test(handle);
+  evictOldestEntries(): void {
+    const entries = Array.from(this.entries.entries()).sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+    const entriesToRemove = Math.ceil(entries.length * 0.3);
+
+    for (let i = 0; i < entriesToRemove && i < entries.length; i++) {
+      const [did] = entries[i];
+      this.removeEntry(did);
+    }
   }
 
   private isValidCacheEntry(entry: unknown): entry is CacheEntry {
@@ -261,7 +675,23 @@ export class DidHandleCache {
       typeof entry === 'object' &&
       entry !== null &&
       typeof (entry as CacheEntry).handle === 'string' &&
-      typeof (entry as CacheEntry).lastAccessed === 'number'
+      isValidHandle((entry as CacheEntry).handle) &&
+      typeof (entry as CacheEntry).lastAccessed === 'number' &&
+      typeof (entry as CacheEntry).resolvedAt === 'number' &&
+      ['undefined', 'string'].includes(typeof (entry as CacheEntry).source) &&
+      ['undefined', 'boolean'].includes(typeof (entry as CacheEntry).verified) &&
+      ['undefined', 'string'].includes(typeof (entry as CacheEntry).pds) &&
+      ['undefined', 'string'].includes(typeof (entry as CacheEntry).signingKey) &&
+      ((entry as CacheEntry).pastHandles === undefined ||
+        (Array.isArray((entry as CacheEntry).pastHandles) &&
+          (entry as { pastHandles: unknown[] }).pastHandles.every(
+            (handle) => typeof handle === 'string' && isValidHandle(handle),
+          ))) &&
+      ((entry as CacheEntry).profile === undefined || this.isValidCachedProfile((entry as CacheEntry).profile))
     );
   }
+
+  private isValidCachedProfile(profile: unknown): profile is CachedProfile {
+    return isRecord(profile) && typeof profile.fetchedAt === 'number' && parseActorProfile(profile) !== null;
+  }
 }
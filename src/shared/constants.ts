@@ -6,3 +6,13 @@ export const NSID_SHORTCUTS: Record<string, string> = {
   feed: 'app.bsky.feed.generator',
   lists: 'app.bsky.graph.list',
 };
+
+/**
+ * Starter packs live under their own route on bsky.app: /starter-pack/<actor>/<rkey>
+ */
+export const STARTER_PACK_NSID = 'app.bsky.graph.starterpack';
+
+/**
+ * Records that bsky.app shows on the account's profile page rather than on a page of their own.
+ */
+export const PROFILE_RECORD_NSIDS: readonly string[] = ['app.bsky.actor.profile', 'app.bsky.labeler.service'];
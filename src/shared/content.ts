@@ -0,0 +1,121 @@
+import { NSID_SHORTCUTS, PROFILE_RECORD_NSIDS, STARTER_PACK_NSID } from './constants';
+
+/**
+ * What an input points at. Produced by `canonicalize`; services declare which kinds they can show.
+ */
+export type Content =
+  | { kind: 'profile' }
+  | { kind: 'post'; rkey: string }
+  | { kind: 'feed'; rkey: string }
+  | { kind: 'list'; rkey: string }
+  | { kind: 'starter-pack'; rkey: string }
+  // Any other record, e.g. a like, follow or a record from another app
+  | { kind: 'record'; nsid: string; rkey: string }
+  // All records of one collection in a repository
+  | { kind: 'collection'; nsid: string }
+  | { kind: 'blob'; cid: string };
+
+export type ContentKind = Content['kind'];
+
+export const CONTENT_KINDS: readonly ContentKind[] = [
+  'profile',
+  'post',
+  'feed',
+  'list',
+  'starter-pack',
+  'record',
+  'collection',
+  'blob',
+];
+
+export const CONTENT_KIND_LABELS: Record<ContentKind, string> = {
+  profile: 'Profiles',
+  post: 'Posts',
+  feed: 'Feeds',
+  list: 'Lists',
+  'starter-pack': 'Starter packs',
+  record: 'Other records',
+  collection: 'Collections',
+  blob: 'Blobs',
+};
+
+type RecordContentKind = 'post' | 'feed' | 'list' | 'starter-pack';
+
+/**
+ * Collections with a kind of their own, with their route on bsky.app.
+ * Adding a kind here (plus to `Content`) is all canonicalization needs.
+ */
+const RECORD_KINDS: Record<RecordContentKind, { nsid: string; bskyAppPath: (acct: string, rkey: string) => string }> = {
+  post: { nsid: NSID_SHORTCUTS.post, bskyAppPath: (acct, rkey) => `/profile/${acct}/post/${rkey}` },
+  feed: { nsid: NSID_SHORTCUTS.feed, bskyAppPath: (acct, rkey) => `/profile/${acct}/feed/${rkey}` },
+  list: { nsid: NSID_SHORTCUTS.lists, bskyAppPath: (acct, rkey) => `/profile/${acct}/lists/${rkey}` },
+  'starter-pack': { nsid: STARTER_PACK_NSID, bskyAppPath: (acct, rkey) => `/starter-pack/${acct}/${rkey}` },
+};
+
+function isRecordContentKind(kind: ContentKind): kind is RecordContentKind {
+  return kind in RECORD_KINDS;
+}
+
+/**
+ * Classifies the collection and record key following the repository in an AT URI.
+ */
+export function contentFromPath(nsid?: string, rkey?: string): Content {
+  if (!nsid) {
+    return { kind: 'profile' };
+  }
+  if (!rkey) {
+    return { kind: 'collection', nsid };
+  }
+  const kind = (Object.keys(RECORD_KINDS) as RecordContentKind[]).find((key) => RECORD_KINDS[key].nsid === nsid);
+  return kind ? { kind, rkey } : { kind: 'record', nsid, rkey };
+}
+
+/**
+ * The collection NSID of record and collection content.
+ */
+export function contentNsid(content: Content): string | undefined {
+  if (isRecordContentKind(content.kind)) {
+    return RECORD_KINDS[content.kind].nsid;
+  }
+  return content.kind === 'record' || content.kind === 'collection' ? content.nsid : undefined;
+}
+
+/**
+ * The record key of record content.
+ */
+export function contentRkey(content: Content): string | undefined {
+  return 'rkey' in content ? content.rkey : undefined;
+}
+
+/**
+ * Profile and labeler declarations are records, but bsky.app shows them as the account's profile.
+ */
+export function isProfileRecord(content: Content): boolean {
+  return content.kind === 'record' && PROFILE_RECORD_NSIDS.includes(content.nsid);
+}
+
+/**
+ * Whether services without a page for the content should show the account's profile instead.
+ * Blobs have no page anywhere but in blob viewers, so every client falls back to the uploader.
+ */
+function showsAsProfile(content: Content): boolean {
+  return isProfileRecord(content) || content.kind === 'blob';
+}
+
+/**
+ * Whether a service supporting these kinds can show the content.
+ */
+export function supportsContent(supports: readonly ContentKind[], content: Content): boolean {
+  return supports.includes(content.kind) || (showsAsProfile(content) && supports.includes('profile'));
+}
+
+/**
+ * Builds the bsky.app path for content in an account.
+ * Content without a page of its own links to the account's profile.
+ */
+export function buildBskyAppPath(acct: string, content: Content): string {
+  if (isRecordContentKind(content.kind) && 'rkey' in content) {
+    return RECORD_KINDS[content.kind].bskyAppPath(acct, content.rkey);
+  }
+  return `/profile/${acct}`;
+}
@@ -0,0 +1,306 @@
+import { Result, ok, err } from 'neverthrow';
+import type { ServiceConfig } from './services';
+import type { TransformInfo } from './types';
+import { CONTENT_KINDS, contentNsid, contentRkey } from './content';
+import type { ContentKind } from './content';
+import { isRecord } from './types';
+import type { ValidationError } from './errors';
+import { validationError } from './errors';
+import { logError } from './debug';
+
+/**
+ * A user-defined destination, persisted in the extension options.
+ */
+export interface CustomServiceDefinition {
+  id: string;
+  name: string;
+  emoji: string;
+  urlTemplate: string;
+  parsePattern?: string;
+  supports: ContentKind[];
+  requiredFields?: NonNullable<ServiceConfig['requiredFields']>;
+}
+
+/**
+ * Placeholders that may appear in a custom service URL template.
+ */
+export const TEMPLATE_PLACEHOLDERS = ['did', 'handle', 'atUri', 'nsid', 'rkey', 'cid', 'pds'] as const;
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/**
+ * Content kinds for the coarse `contentSupport` values stored before services declared kinds.
+ */
+const LEGACY_CONTENT_SUPPORT: Record<string, ContentKind[]> = {
+  'only-profiles': ['profile'],
+  'only-posts': ['post'],
+  'profiles-and-posts': ['profile', 'post'],
+  full: CONTENT_KINDS.filter((kind) => kind !== 'blob'),
+};
+
+export const CUSTOM_SERVICE_KEY_PREFIX = 'custom:';
+
+const PLACEHOLDER_REGEX = /\{([^{}]*)\}/g;
+const MAX_NAME_LENGTH = 64;
+const MAX_EMOJI_LENGTH = 16;
+
+/**
+ * Sample values used to check that a template expands to a valid URL.
+ */
+const SAMPLE_VALUES: Record<TemplatePlaceholder, string> = {
+  did: 'did:plc:ewvi7nxzyoun6zhxrhs64oiz',
+  handle: 'atproto.com',
+  atUri: 'at://did:plc:ewvi7nxzyoun6zhxrhs64oiz/app.bsky.feed.post/3jwdwj2ctlk26',
+  nsid: 'app.bsky.feed.post',
+  rkey: '3jwdwj2ctlk26',
+  cid: 'bafkreibjfgx2gprinfvicegelk5kosd6y2frmqpqzwqkg7usac74l3t2v4',
+  pds: 'https://pds.example.com',
+};
+
+function isTemplatePlaceholder(name: string): name is TemplatePlaceholder {
+  return (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Values for the template placeholders taken from transform info.
+ */
+export function templateValues(info: TransformInfo): Record<TemplatePlaceholder, string | null | undefined> {
+  return {
+    did: info.did,
+    handle: info.handle,
+    atUri: info.atUri,
+    nsid: contentNsid(info.content),
+    rkey: contentRkey(info.content),
+    cid: info.content.kind === 'blob' ? info.content.cid : undefined,
+    pds: info.pds,
+  };
+}
+
+/**
+ * Expands a URL template with placeholder values.
+ * Returns null when the template references a value that is missing.
+ */
+export function expandUrlTemplate(
+  template: string,
+  info: Partial<Record<TemplatePlaceholder, string | null>>,
+): string | null {
+  const placeholders = Array.from(template.matchAll(PLACEHOLDER_REGEX), (match) => match[1]);
+  if (placeholders.some((name) => !isTemplatePlaceholder(name) || !info[name])) {
+    return null;
+  }
+  return template.replace(PLACEHOLDER_REGEX, (_match, name: TemplatePlaceholder) => info[name] ?? '');
+}
+
+/**
+ * Validates a raw (possibly user-entered or stored) custom service definition.
+ */
+export function validateCustomService(input: unknown): Result<CustomServiceDefinition, ValidationError> {
+  if (!isRecord(input)) {
+    return err(validationError('Custom service must be an object', 'service', input));
+  }
+
+  const { id, name, emoji, urlTemplate, parsePattern, supports, contentSupport, requiredFields } = input;
+
+  if (typeof id !== 'string' || !id.trim()) {
+    return err(validationError('Custom service is missing an id', 'id', id));
+  }
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return err(validationError('Name is required', 'name', name));
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return err(validationError(`Name must be at most ${MAX_NAME_LENGTH} characters`, 'name', name));
+  }
+
+  if (typeof emoji !== 'string' || emoji.trim().length > MAX_EMOJI_LENGTH) {
+    return err(validationError('Emoji must be a short string', 'emoji', emoji));
+  }
+
+  const templateResult = validateUrlTemplate(urlTemplate);
+  if (templateResult.isErr()) {
+    return err(templateResult.error);
+  }
+
+  let pattern: string | undefined;
+  if (parsePattern !== undefined && parsePattern !== '') {
+    const patternResult = validateParsePattern(parsePattern);
+    if (patternResult.isErr()) {
+      return err(patternResult.error);
+    }
+    pattern = patternResult.value;
+  }
+
+  const kinds = validateSupportedKinds(supports ?? LEGACY_CONTENT_SUPPORT[String(contentSupport)]);
+  if (kinds.isErr()) {
+    return err(kinds.error);
+  }
+
+  let fields: CustomServiceDefinition['requiredFields'];
+  if (requiredFields !== undefined) {
+    if (!isRecord(requiredFields)) {
+      return err(validationError('Required fields must be an object', 'requiredFields', requiredFields));
+    }
+    fields = {};
+    for (const key of ['handle', 'rkey', 'plcOnly'] as const) {
+      const value = requiredFields[key];
+      if (value !== undefined && typeof value !== 'boolean') {
+        return err(validationError(`Required field "${key}" must be a boolean`, 'requiredFields', requiredFields));
+      }
+      if (value) fields[key] = true;
+    }
+  }
+
+  return ok({
+    id: id.trim(),
+    name: name.trim(),
+    emoji: emoji.trim(),
+    urlTemplate: templateResult.value,
+    ...(pattern !== undefined && { parsePattern: pattern }),
+    supports: kinds.value,
+    ...(fields && { requiredFields: fields }),
+  });
+}
+
+/**
+ * Validates the content kinds a service supports: a non-empty list of known kinds, deduplicated.
+ */
+export function validateSupportedKinds(supports: unknown): Result<ContentKind[], ValidationError> {
+  if (!Array.isArray(supports) || !supports.length) {
+    return err(validationError('Select at least one kind of content', 'supports', supports));
+  }
+  const unknown: unknown = supports.find((kind) => !(CONTENT_KINDS as readonly unknown[]).includes(kind));
+  if (unknown !== undefined) {
+    return err(validationError(`Unknown content kind ${JSON.stringify(unknown)}`, 'supports', supports));
+  }
+  // Declaration order, so stored definitions compare equal regardless of selection order
+  return ok(CONTENT_KINDS.filter((kind) => (supports as unknown[]).includes(kind)));
+}
+
+/**
+ * Validates a URL template: known placeholders only, at least one placeholder,
+ * and an http(s) URL once expanded.
+ */
+export function validateUrlTemplate(template: unknown): Result<string, ValidationError> {
+  if (typeof template !== 'string' || !template.trim()) {
+    return err(validationError('URL template is required', 'urlTemplate', template));
+  }
+
+  const trimmed = template.trim();
+  const placeholders = Array.from(trimmed.matchAll(PLACEHOLDER_REGEX), (match) => match[1]);
+
+  const unknown = placeholders.find((name) => !isTemplatePlaceholder(name));
+  if (unknown !== undefined) {
+    return err(validationError(`Unknown placeholder "{${unknown}}"`, 'urlTemplate', template));
+  }
+  if (!placeholders.length) {
+    return err(
+      validationError(
+        `URL template must contain at least one placeholder: ${TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`,
+        'urlTemplate',
+        template,
+      ),
+    );
+  }
+
+  const sample = expandUrlTemplate(trimmed, SAMPLE_VALUES);
+  const url = Result.fromThrowable(
+    () => new URL(sample ?? ''),
+    () => validationError('URL template does not produce a valid URL', 'urlTemplate', template),
+  )();
+  if (url.isErr()) {
+    return err(url.error);
+  }
+  if (url.value.protocol !== 'https:' && url.value.protocol !== 'http:') {
+    return err(validationError('URL template must use http or https', 'urlTemplate', template));
+  }
+
+  return ok(trimmed);
+}
+
+/**
+ * Validates a parse pattern: a regular expression with at least one capture group.
+ */
+export function validateParsePattern(pattern: unknown): Result<string, ValidationError> {
+  if (typeof pattern !== 'string') {
+    return err(validationError('Parse pattern must be a string', 'parsePattern', pattern));
+  }
+
+  const regex = Result.fromThrowable(
+    () => new RegExp(pattern),
+    () => validationError('Parse pattern is not a valid regular expression', 'parsePattern', pattern),
+  )();
+  if (regex.isErr()) {
+    return err(regex.error);
+  }
+
+  // Matching against an always-matching alternative reveals the number of capture groups
+  const groups = new RegExp(`${pattern}|`).exec('')?.length ?? 1;
+  if (groups < 2) {
+    return err(validationError('Parse pattern must contain a capture group', 'parsePattern', pattern));
+  }
+
+  return ok(pattern);
+}
+
+/**
+ * Converts a validated custom service definition into a ServiceConfig.
+ */
+export function customServiceToConfig(definition: CustomServiceDefinition): ServiceConfig {
+  const sampleUrl = new URL(expandUrlTemplate(definition.urlTemplate, SAMPLE_VALUES) ?? '');
+  const pattern = definition.parsePattern ? new RegExp(definition.parsePattern) : null;
+
+  return {
+    emoji: definition.emoji,
+    name: definition.name,
+    supports: definition.supports,
+    ...(pattern && {
+      parsing: {
+        hostname: sampleUrl.hostname,
+        patterns: {
+          // The first capture group holds a handle, DID or AT URI fragment
+          customParser: (url: URL) => pattern.exec(`${url.pathname}${url.search}`)?.[1] ?? null,
+        },
+      },
+    }),
+    buildUrl: (info: TransformInfo) => expandUrlTemplate(definition.urlTemplate, templateValues(info)),
+    requiredFields: definition.requiredFields,
+  };
+}
+
+/**
+ * Builds ServiceConfigs for stored custom services, skipping invalid definitions.
+ */
+export function getCustomServiceConfigs(definitions: readonly unknown[]): Record<string, ServiceConfig> {
+  const configs: Record<string, ServiceConfig> = {};
+
+  for (const definition of definitions) {
+    const result = validateCustomService(definition);
+    if (result.isErr()) {
+      logError('SERVICES', result.error, { operation: 'getCustomServiceConfigs' });
+      continue;
+    }
+    configs[`${CUSTOM_SERVICE_KEY_PREFIX}${result.value.id}`] = customServiceToConfig(result.value);
+  }
+
+  return configs;
+}
+
+/**
+ * Returns a copy of the list with the definition added or replaced by id.
+ */
+export function upsertCustomService(
+  list: readonly CustomServiceDefinition[],
+  definition: CustomServiceDefinition,
+): CustomServiceDefinition[] {
+  const index = list.findIndex((item) => item.id === definition.id);
+  if (index === -1) {
+    return [...list, definition];
+  }
+  return list.map((item, i) => (i === index ? definition : item));
+}
+
+/**
+ * Returns a copy of the list without the definition with the given id.
+ */
+export function removeCustomService(list: readonly CustomServiceDefinition[], id: string): CustomServiceDefinition[] {
+  return list.filter((item) => item.id !== id);
+}
@@ -0,0 +1,64 @@
+import { Result, ok, err } from 'neverthrow';
+import type { ValidationError } from './errors';
+import { validationError } from './errors';
+
+/**
+ * Base URLs of the services used for identity resolution.
+ */
+export interface ResolverEndpoints {
+  appView: string;
+  plcDirectory: string;
+  // DNS-over-HTTPS JSON API used for `_atproto` TXT lookups
+  doh: string;
+}
+
+export const DEFAULT_ENDPOINTS: ResolverEndpoints = {
+  appView: 'https://public.api.bsky.app',
+  plcDirectory: 'https://plc.directory',
+  doh: 'https://cloudflare-dns.com/dns-query',
+};
+
+// Plain http is only allowed for local mirrors
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Validates an endpoint base URL and normalizes it without a trailing slash.
+ */
+export function validateEndpointUrl(value: unknown, field: string): Result<string, ValidationError> {
+  if (typeof value !== 'string' || !value.trim()) {
+    return err(validationError('Endpoint URL is required', field, value));
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return err(validationError('Endpoint must be a valid URL', field, value));
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && LOCAL_HOSTNAMES.has(url.hostname))) {
+    return err(validationError('Endpoint must use https (http is allowed for localhost)', field, value));
+  }
+  if (url.search || url.hash || url.username || url.password) {
+    return err(validationError('Endpoint must not contain credentials, a query or a fragment', field, value));
+  }
+
+  return ok(`${url.origin}${url.pathname.replace(/\/+$/, '')}`);
+}
+
+/**
+ * Builds resolver endpoints from stored options, falling back to defaults for invalid values.
+ */
+export function getEndpoints(options: {
+  appViewUrl?: string;
+  plcDirectoryUrl?: string;
+  dohUrl?: string;
+}): ResolverEndpoints {
+  return {
+    appView: validateEndpointUrl(options.appViewUrl, 'appViewUrl').unwrapOr(DEFAULT_ENDPOINTS.appView),
+    plcDirectory: validateEndpointUrl(options.plcDirectoryUrl, 'plcDirectoryUrl').unwrapOr(
+      DEFAULT_ENDPOINTS.plcDirectory,
+    ),
+    doh: validateEndpointUrl(options.dohUrl, 'dohUrl').unwrapOr(DEFAULT_ENDPOINTS.doh),
+  };
+}
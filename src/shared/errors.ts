@@ -1,4 +1,11 @@
-export type WormholeError = NetworkError | ParseError | ValidationError | CacheError | StorageError | RuntimeError;
+export type WormholeError =
+  | NetworkError
+  | ParseError
+  | ValidationError
+  | CacheError
+  | StorageError
+  | RuntimeError
+  | AbortError;
 
 export interface NetworkError {
   type: 'NETWORK_ERROR';
@@ -6,6 +13,10 @@ export interface NetworkError {
   url: string;
   status?: number;
   cause?: unknown;
+  // Set when the host asked to be left alone, or kept failing: no request is sent before then
+  retryAt?: number;
+  // The request was not sent because the host's circuit breaker is open
+  circuitOpen?: boolean;
 }
 
 export interface ParseError {
@@ -41,6 +52,14 @@ export interface RuntimeError {
   cause?: unknown;
 }
 
+export interface AbortError {
+  type: 'ABORT_ERROR';
+  message: string;
+  // True when the operation ran out of time, rather than being cancelled by whoever started it
+  timedOut: boolean;
+  cause?: unknown;
+}
+
 export const networkError = (message: string, url: string, status?: number, cause?: unknown): NetworkError => ({
   type: 'NETWORK_ERROR',
   message,
@@ -49,6 +68,14 @@ export const networkError = (message: string, url: string, status?: number, caus
   cause,
 });
 
+export const circuitOpenError = (url: string, retryAt: number): NetworkError => ({
+  type: 'NETWORK_ERROR',
+  message: 'Host is unavailable after repeated failures',
+  url,
+  retryAt,
+  circuitOpen: true,
+});
+
 export const parseError = (message: string, input: string): ParseError => ({
   type: 'PARSE_ERROR',
   message,
@@ -82,14 +109,33 @@ export const runtimeError = (message: string, cause?: unknown): RuntimeError =>
   cause,
 });
 
+/**
+ * Builds the error for an aborted operation from the reason of its AbortSignal.
+ */
+export const abortError = (reason?: unknown): AbortError => {
+  const timedOut = reason instanceof DOMException && reason.name === 'TimeoutError';
+  return {
+    type: 'ABORT_ERROR',
+    message: timedOut ? 'Deadline exceeded' : 'Request was cancelled',
+    timedOut,
+    cause: reason,
+  };
+};
+
 export const isWormholeError = (error: unknown): error is WormholeError => {
   return (
     typeof error === 'object' &&
     error !== null &&
     'type' in error &&
     typeof (error as Record<string, unknown>).type === 'string' &&
-    ['NETWORK_ERROR', 'PARSE_ERROR', 'VALIDATION_ERROR', 'CACHE_ERROR', 'STORAGE_ERROR', 'RUNTIME_ERROR'].includes(
-      (error as Record<string, unknown>).type as string,
-    )
+    [
+      'NETWORK_ERROR',
+      'PARSE_ERROR',
+      'VALIDATION_ERROR',
+      'CACHE_ERROR',
+      'STORAGE_ERROR',
+      'RUNTIME_ERROR',
+      'ABORT_ERROR',
+    ].includes((error as Record<string, unknown>).type as string)
   );
 };
@@ -0,0 +1,87 @@
+import { ResultAsync, err, errAsync } from 'neverthrow';
+import { abortError, type AbortError } from './errors';
+
+interface InFlight<T, E> {
+  result: ResultAsync<T, E>;
+  controller: AbortController;
+  // Callers still waiting for the result; callers without a signal keep the operation alive for good
+  waiting: number;
+}
+
+/**
+ * Lets concurrent callers asking for the same key share one in-flight operation and its result,
+ * success or failure. Keys are forgotten as soon as the operation settles, so this never serves
+ * old results: caching is left to the caller.
+ *
+ * A caller that passes a signal stops waiting when it aborts. The shared operation is only
+ * cancelled once every caller has stopped waiting.
+ */
+export class InFlightRegistry<T, E> {
+  private pending = new Map<string, InFlight<T, E>>();
+
+  /**
+   * Returns the operation already running for `key`, or starts one with `start`. `start` gets
+   * the signal that cancels the shared operation.
+   */
+  run(
+    key: string,
+    start: (signal: AbortSignal) => ResultAsync<T, E>,
+    signal?: AbortSignal,
+  ): ResultAsync<T, E | AbortError> {
+    if (signal?.aborted) {
+      return errAsync(abortError(signal.reason));
+    }
+
+    let entry = this.pending.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const started: InFlight<T, E> = {
+        result: new ResultAsync(
+          Promise.resolve(start(controller.signal)).finally(() => {
+            this.forget(key, started);
+          }),
+        ),
+        controller,
+        waiting: 0,
+      };
+      this.pending.set(key, started);
+      entry = started;
+    }
+    entry.waiting++;
+    if (!signal) {
+      return entry.result;
+    }
+
+    const shared = entry;
+    return new ResultAsync(
+      new Promise((resolve) => {
+        const onAbort = () => {
+          resolve(err(abortError(signal.reason)));
+          if (--shared.waiting === 0) {
+            this.forget(key, shared);
+            shared.controller.abort(signal.reason);
+          }
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        void shared.result.then((result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        });
+      }),
+    );
+  }
+
+  /**
+   * Number of operations still running.
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  // A cancelled operation may settle after a new one started for the same key
+  private forget(key: string, entry: InFlight<T, E>): void {
+    if (this.pending.get(key) === entry) {
+      this.pending.delete(key);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { ResultAsync } from 'neverthrow';
+import type { SWMessage } from './types';
+import { runtimeError, type RuntimeError } from './errors';
+
+/**
+ * Sends a message to the service worker and resolves with its response. See `sendThroughPort`
+ * for resolutions that should be cancelled when the popup closes.
+ */
+export function sendMessage<T>(message: SWMessage): ResultAsync<T, RuntimeError> {
+  return ResultAsync.fromPromise(chrome.runtime.sendMessage<SWMessage, T>(message), (error) =>
+    runtimeError(error instanceof Error ? error.message : 'Unknown runtime error', error),
+  );
+}
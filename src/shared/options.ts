@@ -1,10 +1,22 @@
-import { ResultAsync } from 'neverthrow';
+import { ResultAsync, errAsync } from 'neverthrow';
 import { StorageError, storageError } from './errors';
+import type { CustomServiceDefinition } from './custom-services';
+import type { ServiceLayout } from './services';
+import { DEFAULT_ENDPOINTS } from './endpoints';
 
 // Option type definitions
 export interface WormholeOptions {
   showEmojis: boolean;
   strictMode: boolean;
+  customServices: CustomServiceDefinition[];
+  serviceLayout: ServiceLayout;
+  omniboxDefaultService: string;
+  appViewUrl: string;
+  plcDirectoryUrl: string;
+  dohUrl: string;
+  wellKnownLookup: boolean;
+  appViewFallback: boolean;
+  cacheTtlHours: number;
 }
 
 // Option metadata
@@ -26,12 +38,66 @@ const OPTION_CONFIGS: { [K in keyof WormholeOptions]: OptionMetadata<K> } = {
     defaultValue: false,
     description: 'Only show services that support the current content type',
   },
+  customServices: {
+    key: 'customServices',
+    defaultValue: [],
+    description: 'User-defined services built from URL templates',
+  },
+  serviceLayout: {
+    key: 'serviceLayout',
+    defaultValue: { order: [], hidden: [] },
+    description: 'Order and visibility of services in the popup',
+  },
+  omniboxDefaultService: {
+    key: 'omniboxDefaultService',
+    defaultValue: 'BSKY_APP',
+    description: 'Service opened when pressing Enter after the omnibox keyword',
+  },
+  appViewUrl: {
+    key: 'appViewUrl',
+    defaultValue: DEFAULT_ENDPOINTS.appView,
+    description: 'AppView used to resolve handles to DIDs',
+  },
+  plcDirectoryUrl: {
+    key: 'plcDirectoryUrl',
+    defaultValue: DEFAULT_ENDPOINTS.plcDirectory,
+    description: 'PLC directory used to resolve did:plc identities',
+  },
+  dohUrl: {
+    key: 'dohUrl',
+    defaultValue: DEFAULT_ENDPOINTS.doh,
+    description: 'DNS-over-HTTPS endpoint used for _atproto TXT lookups',
+  },
+  wellKnownLookup: {
+    key: 'wellKnownLookup',
+    defaultValue: false,
+    description: 'Ask https://<handle>/.well-known/atproto-did when DNS has no record',
+  },
+  appViewFallback: {
+    key: 'appViewFallback',
+    defaultValue: true,
+    description: 'Ask the AppView when DNS and well-known handle lookups fail',
+  },
+  cacheTtlHours: {
+    key: 'cacheTtlHours',
+    defaultValue: 24,
+    description: 'Hours before a cached handle is revalidated',
+  },
 };
 
 // Define defaults
 const DEFAULT_OPTIONS: WormholeOptions = {
   showEmojis: true,
   strictMode: false,
+  customServices: [],
+  serviceLayout: { order: [], hidden: [] },
+  omniboxDefaultService: 'BSKY_APP',
+  appViewUrl: DEFAULT_ENDPOINTS.appView,
+  plcDirectoryUrl: DEFAULT_ENDPOINTS.plcDirectory,
+  dohUrl: DEFAULT_ENDPOINTS.doh,
+  wellKnownLookup: false,
+  appViewFallback: true,
+  cacheTtlHours: 24,
 };
 
 // Get all options
@@ -46,8 +112,26 @@ export function getOption<K extends keyof WormholeOptions>(key: K): ResultAsync<
   return getOptions().map((options) => options[key]);
 }
 
+// chrome.storage.sync.QUOTA_BYTES_PER_ITEM, counted over the key and the JSON-serialized value
+const SYNC_ITEM_QUOTA_BYTES = 8192;
+
+// Size of an option as chrome.storage.sync counts it against the per-item quota
+function syncItemBytes(key: string, value: unknown): number {
+  return new TextEncoder().encode(key + JSON.stringify(value)).length;
+}
+
 // Set option(s)
 export function setOptions(options: Partial<WormholeOptions>): ResultAsync<void, StorageError> {
+  // Checked up front so the caller gets a clear error instead of the browser's quota message
+  for (const [key, value] of Object.entries(options)) {
+    const bytes = syncItemBytes(key, value);
+    if (bytes > SYNC_ITEM_QUOTA_BYTES) {
+      return errAsync(
+        storageError(`${key} takes ${bytes} bytes, over the ${SYNC_ITEM_QUOTA_BYTES}-byte sync limit`, 'quota'),
+      );
+    }
+  }
+
   return ResultAsync.fromPromise(chrome.storage.sync.set(options), (error) =>
     storageError('Failed to set options', 'set', error),
   );
@@ -74,11 +158,10 @@ export function onOptionsChange(callback: (changes: Partial<WormholeOptions>) =>
       const optionChanges: Partial<WormholeOptions> = {};
 
       // Check for our option keys
-      if ('showEmojis' in changes) {
-        optionChanges.showEmojis = changes.showEmojis.newValue as boolean;
-      }
-      if ('strictMode' in changes) {
-        optionChanges.strictMode = changes.strictMode.newValue as boolean;
+      for (const key of Object.keys(DEFAULT_OPTIONS) as (keyof WormholeOptions)[]) {
+        if (key in changes) {
+          (optionChanges as Record<string, unknown>)[key] = changes[key].newValue;
+        }
       }
 
       if (Object.keys(optionChanges).length > 0) {
@@ -102,7 +185,7 @@ export function removeOptionsChangeListener(callback: (changes: Partial<Wormhole
 
 // Get default values
 export function getDefaultOptions(): WormholeOptions {
-  return { ...DEFAULT_OPTIONS };
+  return structuredClone(DEFAULT_OPTIONS);
 }
 
 // Get option metadata
@@ -115,7 +198,7 @@ export async function loadOptions(): Promise<WormholeOptions> {
   const result = await getOptions();
   return result.match(
     (options) => options,
-    () => DEFAULT_OPTIONS,
+    () => getDefaultOptions(),
   );
 }
 
@@ -3,14 +3,98 @@ import type { TransformInfo } from './types';
 import type { WormholeError } from './errors';
 import { parseError } from './errors';
 import { parseUrlFromServices } from './services';
-import { canonicalize } from './canonicalizer';
+import type { CustomServiceDefinition } from './custom-services';
+import { canonicalize, canonicalizeBlob } from './canonicalizer';
 import { logError } from './debug';
 
+interface BlobReference {
+  did: string;
+  cid: string;
+}
+
+/**
+ * Bluesky's media hosts serve blobs under paths naming the uploader's DID and the blob CID.
+ */
+const BLOB_URL_PATTERNS: Partial<Record<string, RegExp>> = {
+  // /img/feed_fullsize/plain/<did>/<cid>@jpeg
+  'cdn.bsky.app': /^\/img\/[^/]+\/plain\/([^/]+)\/([^/@]+)/,
+  // /watch/<did>/<cid>/playlist.m3u8
+  'video.bsky.app': /^\/watch\/([^/]+)\/([^/]+)/,
+  // /hls/<did>/<cid>/playlist.m3u8
+  'video.cdn.bsky.app': /^\/hls\/([^/]+)\/([^/]+)/,
+};
+
+/**
+ * Finds the DID and CID in media CDN URLs.
+ */
+function parseBlobUrl(url: URL): BlobReference | null {
+  const match = BLOB_URL_PATTERNS[url.hostname]?.exec(url.pathname);
+  return match ? { did: match[1], cid: match[2] } : null;
+}
+
+const XRPC_PATH_PREFIX = '/xrpc/';
+
+// Query parameters of AppView methods that take an AT URI, e.g. getPostThread?uri= or getFeed?feed=
+const AT_URI_PARAMS = ['uri', 'uris', 'feed', 'list', 'starterPack'];
+
+// Query parameters naming a repository, in order of preference
+const REPO_PARAMS = ['repo', 'actor', 'did', 'handle'];
+
+/**
+ * Extracts what an XRPC call on any host is about: a blob, a record from the `repo`, `collection`
+ * and `rkey` parameters, an AT URI parameter or an account.
+ * Returns null for URLs that are not XRPC calls or name nothing we understand.
+ */
+function parseXrpcUrl(url: URL): Result<TransformInfo | null, WormholeError> | null {
+  if (!url.pathname.startsWith(XRPC_PATH_PREFIX)) {
+    return null;
+  }
+  const method = url.pathname.slice(XRPC_PATH_PREFIX.length);
+  const params = url.searchParams;
+  // Only PDSes serve the sync methods, so the host is the account's PDS
+  const pds = method.startsWith('com.atproto.sync.') ? url.origin : undefined;
+
+  const did = params.get('did');
+  const cid = params.get('cid');
+  if (method === 'com.atproto.sync.getBlob' && did && cid) {
+    return canonicalizeBlob(did, cid, pds);
+  }
+
+  const atUri = AT_URI_PARAMS.map((name) => params.get(name)).find((value) => value?.startsWith('at://'));
+  if (atUri) {
+    return canonicalize(atUri);
+  }
+
+  const repo = REPO_PARAMS.map((name) => params.get(name)).find(Boolean);
+  if (!repo) {
+    return null;
+  }
+  const collection = params.get('collection');
+  const rkey = params.get('rkey');
+  const path = [repo, ...(collection ? [collection, ...(rkey ? [rkey] : [])] : [])].join('/');
+  return canonicalize(path).map((info) => (info && pds ? { ...info, pds } : info));
+}
+
+/**
+ * Canonicalizes an identifier followed by a site's route. Routes such as `/followers` or a post's
+ * `/liked-by` have no place in an AT URI, so the fragment is trimmed to the record, then to the
+ * account, until it is valid.
+ */
+function canonicalizeRoute(fragment: string): Result<TransformInfo | null, WormholeError> {
+  const parts = fragment.split('/');
+  return canonicalize(fragment)
+    .orElse((error) => (parts.length > 3 ? canonicalize(parts.slice(0, 3).join('/')) : err(error)))
+    .orElse(() => canonicalize(parts[0]));
+}
+
 /**
  * Parses a raw input string (URL, DID, handle) and returns canonical info.
  * This is the main entry point for parsing any user input.
  */
-export function parseInput(raw: string): Result<TransformInfo | null, WormholeError> {
+export function parseInput(
+  raw: string,
+  customServices: readonly CustomServiceDefinition[] = [],
+): Result<TransformInfo | null, WormholeError> {
   if (!raw) {
     return ok(null);
   }
@@ -39,10 +123,20 @@ export function parseInput(raw: string): Result<TransformInfo | null, WormholeEr
       () => parseError('Invalid URL format', str),
     )()
       .andThen((url) => {
-        // Try service-specific parsing first
-        const serviceResult = parseUrlFromServices(url);
+        const xrpcResult = parseXrpcUrl(url);
+        if (xrpcResult) {
+          return xrpcResult;
+        }
+
+        const blob = parseBlobUrl(url);
+        if (blob) {
+          return canonicalizeBlob(blob.did, blob.cid);
+        }
+
+        // Try service-specific parsing
+        const serviceResult = parseUrlFromServices(url, customServices);
         if (serviceResult) {
-          return canonicalize(serviceResult);
+          return canonicalizeRoute(serviceResult);
         }
 
         // Fallback: generic query parameter check for DIDs
@@ -53,13 +147,17 @@ export function parseInput(raw: string): Result<TransformInfo | null, WormholeEr
 
         // Fallback: generic parsing for any /profile/identifier pattern
         const parts = str.split(/[/?#]/);
+        const pathLength = str.split(/[?#]/)[0].split('/').length;
         for (let i = 0; i < parts.length; i++) {
           const p = parts[i];
           if (p.startsWith('did:') || (p.includes('.') && parts[i - 1]?.toLowerCase() === 'profile')) {
-            const rest = parts.slice(i + 1).join('/');
-            // Include slash before rest path
-            const fragment = rest ? `${p}/${rest}` : p;
-            return canonicalize(fragment);
+            // Only path segments can name a collection and record key
+            const rest = parts.slice(i + 1, pathLength).join('/');
+            if (!rest) {
+              return canonicalize(p);
+            }
+            // Unknown sites use their own routes after the identifier
+            return canonicalizeRoute(`${p}/${rest}`);
           }
         }
 
@@ -0,0 +1,195 @@
+import { ResultAsync, err, errAsync, ok } from 'neverthrow';
+import { isRecord } from './types';
+import type { WormholeError } from './errors';
+import { networkError, parseError, validationError } from './errors';
+import { fetchWithRetry } from './retry';
+import { contentFromPath } from './content';
+import type { ContentKind } from './content';
+import { parseAtUri } from './validation';
+import type { ResolveOptions } from './resolver';
+
+/**
+ * What the popup shows about a post, feed or list before opening it.
+ */
+export type RecordPreview =
+  | {
+      kind: 'post';
+      text: string;
+      // What the post embeds, e.g. "images"; absent for plain text posts
+      embed?: string;
+      // AT URIs of the post this one replies to and the record it quotes
+      replyTo?: string;
+      quotes?: string;
+    }
+  | { kind: 'feed' | 'list'; name: string; description?: string }
+  // The record does not exist, usually because it was deleted
+  | { kind: 'not-found' };
+
+export type PreviewKind = 'post' | 'feed' | 'list';
+
+export const PREVIEW_KINDS: readonly ContentKind[] = ['post', 'feed', 'list'];
+
+export interface PreviewSources {
+  // Asked first when known: it holds the record itself and knows for sure when it is gone
+  pds?: string;
+  appView: string;
+}
+
+const EMBED_LABELS: Partial<Record<string, string>> = {
+  'app.bsky.embed.images': 'images',
+  'app.bsky.embed.video': 'video',
+  'app.bsky.embed.external': 'link card',
+  'app.bsky.embed.record': 'quote',
+  'app.bsky.embed.recordWithMedia': 'quote with media',
+};
+
+const NOT_FOUND: RecordPreview = { kind: 'not-found' };
+
+// XRPC error names for a record that does not exist
+const NOT_FOUND_ERRORS: readonly string[] = ['RecordNotFound', 'NotFound'];
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function strongRefUri(ref: unknown): string | undefined {
+  return isRecord(ref) ? optionalString(ref.uri) : undefined;
+}
+
+function parsePost(value: Record<string, unknown>): RecordPreview {
+  const { text, embed, reply } = value;
+  const embedType = isRecord(embed) && typeof embed.$type === 'string' ? embed.$type : undefined;
+  const quoted =
+    !isRecord(embed) ? undefined
+    : embedType === 'app.bsky.embed.recordWithMedia' ?
+      strongRefUri(isRecord(embed.record) ? embed.record.record : undefined)
+    : embedType === 'app.bsky.embed.record' ? strongRefUri(embed.record)
+    : undefined;
+  const replyTo = isRecord(reply) ? strongRefUri(reply.parent) : undefined;
+  const embedLabel = embedType && (EMBED_LABELS[embedType] ?? 'embed');
+
+  return {
+    kind: 'post',
+    text: typeof text === 'string' ? text : '',
+    ...(embedLabel && { embed: embedLabel }),
+    ...(replyTo && { replyTo }),
+    ...(quoted && { quotes: quoted }),
+  };
+}
+
+function parseNamed(kind: 'feed' | 'list', name: unknown, description: unknown): RecordPreview | null {
+  const validName = optionalString(name);
+  if (!validName) return null;
+  const validDescription = optionalString(description);
+  return { kind, name: validName, ...(validDescription && { description: validDescription }) };
+}
+
+/**
+ * Reads the preview from a record's value, as returned by `com.atproto.repo.getRecord`.
+ */
+export function parseRecordPreview(kind: PreviewKind, value: Record<string, unknown>): RecordPreview | null {
+  switch (kind) {
+    case 'post':
+      return parsePost(value);
+    case 'feed':
+      return parseNamed('feed', value.displayName, value.description);
+    case 'list':
+      return parseNamed('list', value.name, value.description);
+  }
+}
+
+/**
+ * GETs an XRPC endpoint. Resolves to null when it answers that the record does not exist.
+ */
+function fetchXrpc(url: string, signal?: AbortSignal): ResultAsync<Record<string, unknown> | null, WormholeError> {
+  return fetchWithRetry(url, 'Failed to fetch record', {}, { signal }).andThen((resp) => {
+    if (resp.ok) {
+      return ResultAsync.fromPromise(resp.json() as Promise<unknown>, () =>
+        parseError('Invalid JSON response', url),
+      ).andThen((body) => (isRecord(body) ? ok(body) : err(parseError('Response is not a valid object', url))));
+    }
+    // Error bodies are XRPC `{ error, message }` objects, or anything at all from a proxy
+    return ResultAsync.fromSafePromise((resp.json() as Promise<unknown>).catch(() => null)).andThen((body) => {
+      const notFound =
+        isRecord(body) &&
+        ((typeof body.error === 'string' && NOT_FOUND_ERRORS.includes(body.error)) ||
+          (typeof body.message === 'string' && /not found/i.test(body.message)));
+      return notFound ? ok(null) : err(networkError('HTTP error', url, resp.status));
+    });
+  });
+}
+
+function fromPds(
+  pds: string,
+  repo: string,
+  collection: string,
+  rkey: string,
+  kind: PreviewKind,
+  signal?: AbortSignal,
+): ResultAsync<RecordPreview, WormholeError> {
+  const params = new URLSearchParams({ repo, collection, rkey });
+  const url = `${pds}/xrpc/com.atproto.repo.getRecord?${params.toString()}`;
+  return fetchXrpc(url, signal).andThen((body) => {
+    if (!body) return ok(NOT_FOUND);
+    const preview = isRecord(body.value) ? parseRecordPreview(kind, body.value) : null;
+    return preview ? ok(preview) : err(parseError('Invalid record in response', url));
+  });
+}
+
+function fromAppView(
+  appView: string,
+  atUri: string,
+  kind: PreviewKind,
+  signal?: AbortSignal,
+): ResultAsync<RecordPreview, WormholeError> {
+  const [method, param] =
+    kind === 'post' ? ['app.bsky.feed.getPosts', 'uris']
+    : kind === 'feed' ? ['app.bsky.feed.getFeedGenerator', 'feed']
+    : ['app.bsky.graph.getList', 'list'];
+  const params = new URLSearchParams({ [param]: atUri, ...(kind === 'list' && { limit: '1' }) });
+  const url = `${appView}/xrpc/${method}?${params.toString()}`;
+
+  return fetchXrpc(url, signal).andThen((body) => {
+    if (!body) return ok(NOT_FOUND);
+    let preview: RecordPreview | null;
+    if (kind === 'post') {
+      // getPosts leaves out posts it does not know instead of failing
+      const post = Array.isArray(body.posts) ? (body.posts as unknown[]).find(isRecord) : undefined;
+      if (!post) return ok(NOT_FOUND);
+      preview = isRecord(post.record) ? parseRecordPreview('post', post.record) : null;
+    } else {
+      const view = kind === 'feed' ? body.view : body.list;
+      preview =
+        isRecord(view) ? parseNamed(kind, kind === 'feed' ? view.displayName : view.name, view.description) : null;
+    }
+    return preview ? ok(preview) : err(parseError('Invalid record in response', url));
+  });
+}
+
+/**
+ * Fetches the preview of a post, feed or list. The account's PDS is asked when it is known, and
+ * the AppView when it is not or cannot be reached. A record that does not exist is a preview
+ * of kind `not-found`, not an error. Aborting `signal` cancels the requests.
+ */
+export function fetchRecordPreview(
+  atUri: string,
+  sources: PreviewSources,
+  { signal }: ResolveOptions = {},
+): ResultAsync<RecordPreview, WormholeError> {
+  return parseAtUri(atUri)
+    .andThen(({ authority, collection, rkey }) => {
+      const { kind } = contentFromPath(collection, rkey);
+      return collection && rkey && (kind === 'post' || kind === 'feed' || kind === 'list') ?
+          ok({ authority, collection, rkey, kind })
+        : err(validationError('Only posts, feeds and lists can be previewed', 'atUri', atUri));
+    })
+    .asyncAndThen(({ authority, collection, rkey, kind }) => {
+      const appView = () => fromAppView(sources.appView, atUri, kind, signal);
+      if (!sources.pds) {
+        return appView();
+      }
+      return fromPds(sources.pds, authority, collection, rkey, kind, signal).orElse((error) =>
+        error.type === 'NETWORK_ERROR' ? appView() : errAsync(error),
+      );
+    });
+}
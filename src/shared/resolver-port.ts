@@ -0,0 +1,52 @@
+import { ResultAsync } from 'neverthrow';
+import { RESOLVER_PORT } from './types';
+import type { PortRequest, PortResponse, SWMessage } from './types';
+import { runtimeError, type RuntimeError } from './errors';
+
+interface Waiting {
+  resolve: (response: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+let port: chrome.runtime.Port | null = null;
+let nextId = 0;
+const waiting = new Map<number, Waiting>();
+
+function connect(): chrome.runtime.Port {
+  if (port) return port;
+
+  const connected = chrome.runtime.connect({ name: RESOLVER_PORT });
+  connected.onMessage.addListener(({ id, response }: PortResponse) => {
+    waiting.get(id)?.resolve(response);
+    waiting.delete(id);
+  });
+  connected.onDisconnect.addListener(() => {
+    port = null;
+    for (const { reject } of waiting.values()) {
+      reject(new Error('Service worker disconnected'));
+    }
+    waiting.clear();
+  });
+  port = connected;
+  return connected;
+}
+
+/**
+ * Sends a message to the service worker through the resolver port. Unlike
+ * `chrome.runtime.sendMessage`, the resolutions it starts are cancelled when the popup closes.
+ */
+export function sendThroughPort<T>(message: SWMessage): ResultAsync<T, RuntimeError> {
+  return ResultAsync.fromPromise(
+    new Promise<unknown>((resolve, reject) => {
+      const id = nextId++;
+      waiting.set(id, { resolve, reject });
+      try {
+        connect().postMessage({ id, request: message } satisfies PortRequest);
+      } catch {
+        waiting.delete(id);
+        reject(new Error('Could not reach the service worker'));
+      }
+    }),
+    (error) => runtimeError(error instanceof Error ? error.message : 'Unknown runtime error', error),
+  ).map((response) => response as T);
+}
@@ -1,9 +1,12 @@
 import { ResultAsync, ok, err, okAsync, errAsync } from 'neverthrow';
 import { isRecord } from './types';
-import type { WormholeError } from './errors';
-import { networkError, parseError } from './errors';
-import { logError } from './debug';
-import { withNetworkRetry } from './retry';
+import type { AbortError, WormholeError } from './errors';
+import { abortError, networkError, parseError } from './errors';
+import Debug, { logError } from './debug';
+import { fetchWithRetry, withTimeout } from './retry';
+import { DEFAULT_ENDPOINTS, validateEndpointUrl } from './endpoints';
+import { isValidDid, isValidHandle, validateDid, validateHandle } from './validation';
+import type { ResolverEndpoints } from './endpoints';
 
 /**
  * Safely parse JSON and ensure it's an object using ResultAsync
@@ -23,42 +26,154 @@ function safeJson<T extends Record<string, unknown>>(resp: Response, url: string
   });
 }
 
+export type HandleResolutionMethod = 'dns' | 'well-known' | 'appview' | 'did:web';
+
+export interface HandleResolution {
+  did: string;
+  method: HandleResolutionMethod;
+}
+
+export interface ResolveOptions {
+  // Cancels the resolution, including requests in flight and pending retries
+  signal?: AbortSignal;
+}
+
+export interface HandleResolverOptions extends ResolveOptions {
+  // Ask `https://<handle>/.well-known/atproto-did` when DNS has no answer; needs access to every host
+  wellKnown?: boolean;
+  // Ask the AppView when neither DNS nor the well-known endpoint has an answer
+  appViewFallback?: boolean;
+}
+
+// Spec lookups are single attempts: a missing record is a normal outcome, not a transient failure
+const SPEC_LOOKUP_TIMEOUT = 3000;
+
+/**
+ * Looks up the `_atproto.<handle>` TXT record through a DNS-over-HTTPS JSON endpoint.
+ */
+function resolveHandleViaDns(handle: string, dohUrl: string, signal?: AbortSignal): ResultAsync<string, WormholeError> {
+  const url = `${dohUrl}?name=${encodeURIComponent(`_atproto.${handle}`)}&type=TXT`;
+  // The resolver is shared by every lookup, so it still gets the per-host circuit breaker
+  return fetchWithRetry(
+    url,
+    'Failed to query DNS-over-HTTPS',
+    { headers: { accept: 'application/dns-json' } },
+    { maxAttempts: 1, timeout: SPEC_LOOKUP_TIMEOUT, signal },
+  )
+    .andThen((resp) => safeJson<{ Answer?: unknown }>(resp, url))
+    .andThen((data) => {
+      const records = (Array.isArray(data.Answer) ? data.Answer : [])
+        .map((answer: unknown) => (isRecord(answer) && typeof answer.data === 'string' ? answer.data : ''))
+        // Long TXT values arrive as several quoted strings
+        .map((value) => value.replace(/"\s*"/g, '').replace(/^"|"$/g, ''))
+        .filter((value) => value.startsWith('did='));
+
+      if (records.length !== 1) {
+        return err(parseError(records.length ? 'Multiple atproto TXT records' : 'No atproto TXT record', url));
+      }
+      const did = records[0].slice('did='.length);
+      return isValidDid(did) ? ok(did) : err(parseError('Invalid DID in TXT record', url));
+    });
+}
+
+/**
+ * Fetches `https://<handle>/.well-known/atproto-did`.
+ */
+function resolveHandleViaWellKnown(handle: string, signal?: AbortSignal): ResultAsync<string, WormholeError> {
+  const url = `https://${handle}/.well-known/atproto-did`;
+  return ResultAsync.fromPromise(
+    fetch(url, { redirect: 'error', signal: withTimeout(SPEC_LOOKUP_TIMEOUT, signal) }),
+    (e): WormholeError =>
+      signal?.aborted ? abortError(signal.reason) : networkError('Failed to fetch atproto-did', url, undefined, e),
+  )
+    .andThen((resp) =>
+      resp.ok ?
+        ResultAsync.fromPromise(resp.text(), () => parseError('Invalid atproto-did response', url))
+      : errAsync(networkError('HTTP error', url, resp.status)),
+    )
+    .andThen((text) => {
+      const did = text.trim();
+      return isValidDid(did) ? ok(did) : err(parseError('Invalid DID in atproto-did response', url));
+    });
+}
+
 /**
- * Resolves a handle to a DID, using the Bluesky API or did:web.
+ * Asks the AppView's `com.atproto.identity.resolveHandle`.
  */
-export function resolveHandleToDid(handle: string): ResultAsync<string, WormholeError> {
+function resolveHandleViaAppView(
+  handle: string,
+  appViewUrl: string,
+  signal?: AbortSignal,
+): ResultAsync<string, WormholeError> {
+  const apiUrl = `${appViewUrl}/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`;
+  return fetchWithRetry(apiUrl, 'Failed to fetch handle resolution', {}, { signal })
+    .andThen((resp) => safeJson<{ did?: string }>(resp, apiUrl))
+    .andThen((data) => {
+      if (typeof data.did === 'string' && isValidDid(data.did)) {
+        return ok(data.did);
+      }
+      return err(parseError('No DID found in response', apiUrl));
+    });
+}
+
+/**
+ * Resolves a handle to a DID the way the AT Protocol spec describes: DNS TXT record first,
+ * then the HTTPS well-known endpoint, then the AppView, each only when the one before it has no
+ * answer. The last two can be turned off. Also handles did:web.
+ */
+export function resolveHandle(
+  handle: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  { wellKnown = true, appViewFallback = true, signal }: HandleResolverOptions = {},
+): ResultAsync<HandleResolution, WormholeError> {
   if (handle.startsWith('did:web:')) {
     const parts = handle.split(':');
     if (parts.length === 3) {
       const url = `https://${parts[2]}/.well-known/did.json`;
-      return withNetworkRetry(() =>
-        ResultAsync.fromPromise(fetch(url, { signal: AbortSignal.timeout(5000) }), (e) =>
-          networkError('Failed to fetch did:web document', url, undefined, e),
-        ),
-      )
+      return fetchWithRetry(url, 'Failed to fetch did:web document', {}, { signal })
         .andThen((resp) => safeJson<{ id?: string }>(resp, url))
         .map((data) => data.id ?? handle)
         .orElse((error) => {
+          if (error.type === 'ABORT_ERROR') {
+            return err(error);
+          }
           logError('RESOLVER', error, { handle, type: 'did:web' });
           // For did:web, fallback to returning the original handle if resolution fails
           return ok(handle);
-        });
+        })
+        .map((did) => ({ did, method: 'did:web' as const }));
     }
-    return okAsync(handle);
+    return okAsync({ did: handle, method: 'did:web' });
   }
 
-  const apiUrl = `https://public.api.bsky.app/xrpc/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`;
-  return withNetworkRetry(() =>
-    ResultAsync.fromPromise(fetch(apiUrl, { signal: AbortSignal.timeout(5000) }), (e) =>
-      networkError('Failed to fetch handle resolution', apiUrl, undefined, e),
-    ),
-  )
-    .andThen((resp) => safeJson<{ did?: string }>(resp, apiUrl))
-    .andThen((data) => {
-      if (data.did) {
-        return ok(data.did);
+  // Malformed handles never resolve, so don't spend lookups on them
+  const invalid = validateHandle(handle).match(
+    () => null,
+    (error) => error,
+  );
+  if (invalid) {
+    return errAsync(invalid);
+  }
+
+  // The handle's own host only hears about the lookup when DNS has no answer
+  return resolveHandleViaDns(handle, endpoints.doh, signal)
+    .map((did) => ({ did, method: 'dns' as const }))
+    .orElse((dnsError) => {
+      if (!wellKnown || dnsError.type === 'ABORT_ERROR') {
+        return err(dnsError);
       }
-      return err(parseError('No DID found in response', apiUrl));
+      Debug.serviceWorker('DNS handle resolution failed, trying well-known:', dnsError.message);
+      return resolveHandleViaWellKnown(handle, signal).map((did) => ({ did, method: 'well-known' as const }));
+    })
+    .orElse((wellKnownError) => {
+      if (!appViewFallback || wellKnownError.type === 'ABORT_ERROR') {
+        return err(wellKnownError);
+      }
+      Debug.serviceWorker('Well-known handle resolution failed, asking AppView:', wellKnownError.message);
+      return resolveHandleViaAppView(handle, endpoints.appView, signal).map((did) => ({
+        did,
+        method: 'appview' as const,
+      }));
     })
     .orElse((error) => {
       logError('RESOLVER', error, { handle, type: 'handle' });
@@ -67,65 +182,511 @@ export function resolveHandleToDid(handle: string): ResultAsync<string, Wormhole
 }
 
 /**
- * Resolves a DID to its handle, if possible.
+ * Resolves a handle to a DID. See `resolveHandle` for the lookup order.
  */
-export function resolveDidToHandle(did: string): ResultAsync<string | null, WormholeError> {
+export function resolveHandleToDid(
+  handle: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  options: HandleResolverOptions = {},
+): ResultAsync<string, WormholeError> {
+  return resolveHandle(handle, endpoints, options).map(({ did }) => did);
+}
+
+/**
+ * Fields of a DID document used by the extension; everything else is passed through untouched.
+ */
+export interface DidDocument extends Record<string, unknown> {
+  id?: string;
+  alsoKnownAs?: unknown;
+  service?: unknown;
+  verificationMethod?: unknown;
+}
+
+/**
+ * What a DID document says about the account.
+ */
+export interface DidDocumentIdentity {
+  // Handles claimed in `alsoKnownAs`, in document order
+  handles: string[];
+  // Origin of the `#atproto_pds` service endpoint
+  pds?: string;
+  // The `#atproto` verification method as a did:key
+  signingKey?: string;
+}
+
+/**
+ * An account's handle plus where it is hosted, as resolved from its DID.
+ */
+export interface AccountIdentity {
+  handle: string | null;
+  pds?: string;
+  signingKey?: string;
+  // Set when the DID document could not be fetched, so the handle is a guess or unknown
+  fallback?: boolean;
+}
+
+/**
+ * Reads the handles, PDS and signing key from a DID document. Malformed entries are skipped.
+ */
+export function parseDidDocument(did: string, doc: DidDocument): DidDocumentIdentity {
+  const pds = _findDidDocumentEntry(doc.service, did, '#atproto_pds');
+  const endpoint =
+    pds?.type === 'AtprotoPersonalDataServer' ?
+      validateEndpointUrl(pds.serviceEndpoint, 'serviceEndpoint').unwrapOr(undefined)
+    : undefined;
+
+  const key = _findDidDocumentEntry(doc.verificationMethod, did, '#atproto')?.publicKeyMultibase;
+  const signingKey = typeof key === 'string' && key ? `did:key:${key}` : undefined;
+
+  return {
+    handles: _extractHandlesFromAlsoKnownAs(doc.alsoKnownAs),
+    ...(endpoint && { pds: endpoint }),
+    ...(signingKey && { signingKey }),
+  };
+}
+
+/**
+ * Fetches the DID document for a did:plc (from the configured PLC directory) or did:web DID.
+ */
+export function resolveDidDocument(
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  { signal }: ResolveOptions = {},
+): ResultAsync<DidDocument, WormholeError> {
+  let url: string;
+  let description: string;
+  if (did.startsWith('did:plc:')) {
+    url = `${endpoints.plcDirectory}/${encodeURIComponent(did)}`;
+    description = 'Failed to fetch PLC directory';
+  } else if (did.startsWith('did:web:')) {
+    url = _getDidWebWellKnownUrl(did);
+    description = 'Failed to fetch did:web document';
+  } else {
+    return errAsync(parseError('Unsupported DID method', did));
+  }
+
+  return fetchWithRetry(url, description, {}, { signal }).andThen((resp) => safeJson<DidDocument>(resp, url));
+}
+
+/**
+ * Fetches the rotation keys of a did:plc identity from the PLC directory's `/data` endpoint.
+ * DID documents only carry the signing key; rotation keys live in the PLC operation data.
+ */
+export function resolvePlcRotationKeys(
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  { signal }: ResolveOptions = {},
+): ResultAsync<string[], WormholeError> {
+  if (!did.startsWith('did:plc:')) {
+    return errAsync(parseError('Rotation keys are only available for did:plc', did));
+  }
+
+  const url = `${endpoints.plcDirectory}/${encodeURIComponent(did)}/data`;
+  return fetchWithRetry(url, 'Failed to fetch PLC data', {}, { signal })
+    .andThen((resp) => safeJson<{ rotationKeys?: unknown }>(resp, url))
+    .map((data) => _stringEntries(data.rotationKeys));
+}
+
+/**
+ * One change in a did:plc identity's history, from the PLC directory's audit log.
+ * `previous` is absent for what the genesis operation set.
+ */
+export type PlcHistoryEvent =
+  | { kind: 'handle'; createdAt: string; handle: string | null; previous?: string | null }
+  | { kind: 'pds'; createdAt: string; pds: string | null; previous?: string | null }
+  | { kind: 'rotationKeys'; createdAt: string; rotationKeys: string[]; previous?: string[] }
+  | { kind: 'tombstone'; createdAt: string };
+
+interface PlcState {
+  handle: string | null;
+  pds: string | null;
+  rotationKeys: string[];
+}
+
+/**
+ * Turns the operations of a PLC audit log into the changes they made, oldest first.
+ * Nullified operations never took effect and are skipped, as are malformed ones.
+ */
+export function parsePlcAuditLog(log: readonly unknown[]): PlcHistoryEvent[] {
+  const events: PlcHistoryEvent[] = [];
+  let state: PlcState | undefined;
+
+  for (const entry of log) {
+    if (!isRecord(entry) || entry.nullified === true || !isRecord(entry.operation)) continue;
+    const { createdAt } = entry;
+    if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) continue;
+
+    if (entry.operation.type === 'plc_tombstone') {
+      events.push({ kind: 'tombstone', createdAt });
+      continue;
+    }
+    const next = _readPlcOperation(entry.operation);
+    if (!next) continue;
+
+    if (!state || next.handle !== state.handle) {
+      events.push({ kind: 'handle', createdAt, handle: next.handle, ...(state && { previous: state.handle }) });
+    }
+    if (!state || next.pds !== state.pds) {
+      events.push({ kind: 'pds', createdAt, pds: next.pds, ...(state && { previous: state.pds }) });
+    }
+    if (!state || next.rotationKeys.join(' ') !== state.rotationKeys.join(' ')) {
+      events.push({
+        kind: 'rotationKeys',
+        createdAt,
+        rotationKeys: next.rotationKeys,
+        ...(state && { previous: state.rotationKeys }),
+      });
+    }
+    state = next;
+  }
+  return events;
+}
+
+/**
+ * Handles an identity used before its current one, most recent first and without duplicates.
+ */
+export function pastHandles(history: readonly PlcHistoryEvent[]): string[] {
+  const changes = history.flatMap((event) => (event.kind === 'handle' ? [event.handle] : []));
+  // The last change may have removed the handle, which leaves every earlier one in the past
+  const current = changes.at(-1) ?? null;
+  const handles = changes.filter((handle): handle is string => handle !== null);
+  return [...new Set(handles.reverse())].filter((handle) => handle !== current);
+}
+
+/**
+ * Fetches the history of a did:plc identity from the PLC directory's `/log/audit` endpoint.
+ */
+export function resolvePlcHistory(
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  { signal }: ResolveOptions = {},
+): ResultAsync<PlcHistoryEvent[], WormholeError> {
+  if (!did.startsWith('did:plc:')) {
+    return errAsync(parseError('Operation logs are only available for did:plc', did));
+  }
+
+  const url = `${endpoints.plcDirectory}/${encodeURIComponent(did)}/log/audit`;
+  return fetchWithRetry(url, 'Failed to fetch PLC audit log', {}, { signal })
+    .andThen((resp) => {
+      if (!resp.ok) {
+        return errAsync(networkError('HTTP error', url, resp.status));
+      }
+      return ResultAsync.fromPromise(resp.json() as Promise<unknown>, () => parseError('Invalid JSON response', url));
+    })
+    .andThen((raw) =>
+      Array.isArray(raw) ? ok(parsePlcAuditLog(raw)) : err(parseError('Audit log is not a list', url)),
+    );
+}
+
+/**
+ * Resolves a DID to its handle, PDS and signing key, if possible, using the configured PLC directory or did:web.
+ * The handle is taken from the DID document as-is; see `verifyHandleResolvesTo` for the round trip.
+ */
+export function resolveDidToIdentity(
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  options: ResolveOptions = {},
+): ResultAsync<AccountIdentity, WormholeError> {
   if (!did) {
-    return okAsync(null);
+    return okAsync({ handle: null });
   }
 
+  const fromDocument = () =>
+    resolveDidDocument(did, endpoints, options).map((doc): AccountIdentity => {
+      const { handles, ...hosting } = parseDidDocument(did, doc);
+      return { handle: handles[0] ?? null, ...hosting };
+    });
+
   if (did.startsWith('did:plc:')) {
-    const url = `https://plc.directory/${encodeURIComponent(did)}`;
-    return withNetworkRetry(() =>
-      ResultAsync.fromPromise(fetch(url, { signal: AbortSignal.timeout(5000) }), (e) =>
-        networkError('Failed to fetch PLC directory', url, undefined, e),
-      ),
-    )
-      .andThen((resp) => safeJson<{ alsoKnownAs?: unknown }>(resp, url))
-      .map((data) => _extractHandleFromAlsoKnownAs(data.alsoKnownAs))
-      .orElse((error) => {
-        logError('RESOLVER', error, { did, type: 'did:plc' });
-        return ok(null); // Return null on PLC resolution failure
-      });
+    return fromDocument().orElse((error) => {
+      if (error.type === 'ABORT_ERROR') {
+        return err(error);
+      }
+      logError('RESOLVER', error, { did, type: 'did:plc' });
+      return ok({ handle: null, fallback: true }); // Return null on PLC resolution failure
+    });
   }
 
   if (did.startsWith('did:web:')) {
-    const url = _getDidWebWellKnownUrl(did);
-    return withNetworkRetry(() =>
-      ResultAsync.fromPromise(fetch(url, { signal: AbortSignal.timeout(5000) }), (e) =>
-        networkError('Failed to fetch did:web document', url, undefined, e),
-      ),
-    )
-      .andThen((resp) => safeJson<{ alsoKnownAs?: unknown }>(resp, url))
-      .map((data) => _extractHandleFromAlsoKnownAs(data.alsoKnownAs))
-      .orElse((error) => {
-        logError('RESOLVER', error, { did, type: 'did:web fallback' });
-        // Fallback to decoding the did:web identifier
-        const fallbackHandle = decodeURIComponent(did.substring('did:web:'.length).split('#')[0]);
-        return ok(fallbackHandle);
-      });
+    return fromDocument().orElse((error) => {
+      if (error.type === 'ABORT_ERROR') {
+        return err(error);
+      }
+      logError('RESOLVER', error, { did, type: 'did:web fallback' });
+      // Fallback to decoding the did:web identifier
+      const fallbackHandle = decodeURIComponent(did.substring('did:web:'.length).split('#')[0]);
+      return ok({ handle: fallbackHandle, fallback: true });
+    });
   }
 
-  return okAsync(null);
+  return okAsync({ handle: null });
+}
+
+/**
+ * Resolves a DID to its handle. See `resolveDidToIdentity`.
+ */
+export function resolveDidToHandle(
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  options: ResolveOptions = {},
+): ResultAsync<string | null, WormholeError> {
+  return resolveDidToIdentity(did, endpoints, options).map(({ handle }) => handle);
 }
 
 /**
- * Extracts a handle from an alsoKnownAs array (used in did:web).
+ * Outcome for one DID of a batch resolution. `handle` is null when the DID has none.
  */
-function _extractHandleFromAlsoKnownAs(alsoKnownAs: unknown): string | null {
-  if (Array.isArray(alsoKnownAs)) {
-    for (const aka of alsoKnownAs) {
-      if (typeof aka === 'string' && aka.startsWith('at://')) {
-        const handle = aka.substring('at://'.length);
-        if (handle) {
-          return handle;
+export type BatchHandleResolution = { did: string; handle: string | null } | { did: string; error: WormholeError };
+
+export interface BatchResolverOptions {
+  // Ask the AppView's `getProfiles` first, which answers for 25 DIDs per request
+  useAppView?: boolean;
+  // How many requests may run at once
+  concurrency?: number;
+  // Resolves a DID the AppView had no handle for; defaults to `resolveDidToHandle`
+  resolveDid?: (did: string) => ResultAsync<string | null, WormholeError>;
+}
+
+// Largest `actors` list `app.bsky.actor.getProfiles` accepts
+export const PROFILES_BATCH_SIZE = 25;
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Fetches the handles of up to `PROFILES_BATCH_SIZE` DIDs from the AppView. DIDs without a
+ * profile or whose handle the AppView could not verify are left out.
+ */
+export function resolveHandlesViaProfiles(
+  dids: readonly string[],
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+): ResultAsync<Map<string, string>, WormholeError> {
+  const params = new URLSearchParams(dids.map((did) => ['actors', did]));
+  const apiUrl = `${endpoints.appView}/xrpc/app.bsky.actor.getProfiles?${params.toString()}`;
+  return fetchWithRetry(apiUrl, 'Failed to fetch profiles')
+    .andThen((resp) => safeJson<{ profiles?: unknown }>(resp, apiUrl))
+    .map((data) => {
+      const handles = new Map<string, string>();
+      for (const profile of Array.isArray(data.profiles) ? data.profiles.filter(isRecord) : []) {
+        const { did, handle } = profile;
+        if (typeof did === 'string' && dids.includes(did) && typeof handle === 'string' && isValidHandle(handle)) {
+          handles.set(did, handle);
         }
       }
+      return handles;
+    });
+}
+
+/**
+ * Resolves the handles of many DIDs at once: through the AppView in batches of
+ * `PROFILES_BATCH_SIZE` first, then one by one for the DIDs it did not answer for, with at most
+ * `concurrency` requests in flight. Results follow the order of `dids`, without duplicates.
+ */
+export function resolveDidsToHandles(
+  dids: readonly string[],
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  {
+    useAppView = true,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    resolveDid = (did) => resolveDidToHandle(did, endpoints),
+  }: BatchResolverOptions = {},
+): ResultAsync<BatchHandleResolution[], never> {
+  const unique = [...new Set(dids)];
+  const results = new Map<string, BatchHandleResolution>();
+  const valid: string[] = [];
+  for (const did of unique) {
+    const invalid = validateDid(did).match(
+      () => null,
+      (error) => error,
+    );
+    if (invalid) {
+      results.set(did, { did, error: invalid });
+    } else {
+      valid.push(did);
     }
   }
+
+  const batches: string[][] = [];
+  for (let i = 0; useAppView && i < valid.length; i += PROFILES_BATCH_SIZE) {
+    batches.push(valid.slice(i, i + PROFILES_BATCH_SIZE));
+  }
+
+  const run = async (): Promise<BatchHandleResolution[]> => {
+    await _mapWithConcurrency(batches, concurrency, (batch) =>
+      resolveHandlesViaProfiles(batch, endpoints).match(
+        (handles) => {
+          for (const [did, handle] of handles) {
+            results.set(did, { did, handle });
+          }
+        },
+        (error) => {
+          logError('RESOLVER', error, { batch: batch.length });
+        },
+      ),
+    );
+
+    await _mapWithConcurrency(
+      valid.filter((did) => !results.has(did)),
+      concurrency,
+      (did) =>
+        resolveDid(did).match(
+          (handle) => {
+            results.set(did, { did, handle });
+          },
+          (error) => {
+            results.set(did, { did, error });
+          },
+        ),
+    );
+
+    return unique.flatMap((did) => results.get(did) ?? []);
+  };
+  return ResultAsync.fromSafePromise(run());
+}
+
+/**
+ * The parts of an actor profile shown in the popup header.
+ */
+export interface ActorProfile {
+  did: string;
+  // As the AppView sent it; Bluesky's `handle.invalid` when it could not verify the account's handle
+  handle: string;
+  // Set when the handle is not a valid handle, so it must not be shown or used as the account's
+  handleInvalid?: boolean;
+  displayName?: string;
+  // HTTPS URL of the avatar thumbnail
+  avatar?: string;
+  followersCount?: number;
+  postsCount?: number;
+  // Label values applied to the account, e.g. `!hide` or `porn`
+  labels: string[];
+}
+
+/**
+ * Reads an `app.bsky.actor.defs#profileViewDetailed`. Fields of the wrong type are left out.
+ * Profiles with an invalid handle are kept, marked `handleInvalid`.
+ */
+export function parseActorProfile(data: Record<string, unknown>): ActorProfile | null {
+  const { did, handle, displayName, avatar, followersCount, postsCount, labels } = data;
+  if (typeof did !== 'string' || !isValidDid(did) || typeof handle !== 'string') {
+    return null;
+  }
+  const labelValues = Array.isArray(labels) ? labels.filter(isRecord).map((label) => label.val) : [];
+  return {
+    did,
+    handle,
+    ...(!isValidHandle(handle) && { handleInvalid: true }),
+    ...(typeof displayName === 'string' && displayName.trim() && { displayName: displayName.trim() }),
+    ...(typeof avatar === 'string' && avatar.startsWith('https://') && { avatar }),
+    ...(typeof followersCount === 'number' && { followersCount }),
+    ...(typeof postsCount === 'number' && { postsCount }),
+    labels: [...new Set(labelValues.filter((val): val is string => typeof val === 'string' && val !== ''))],
+  };
+}
+
+/**
+ * Fetches an actor's profile from the AppView's `app.bsky.actor.getProfile`.
+ */
+export function fetchActorProfile(
+  actor: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  { signal }: ResolveOptions = {},
+): ResultAsync<ActorProfile, WormholeError> {
+  const apiUrl = `${endpoints.appView}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(actor)}`;
+  return fetchWithRetry(apiUrl, 'Failed to fetch profile', {}, { signal })
+    .andThen((resp) => safeJson(resp, apiUrl))
+    .andThen((data) => {
+      const profile = parseActorProfile(data);
+      return profile ? ok(profile) : err(parseError('Invalid profile in response', apiUrl));
+    });
+}
+
+/**
+ * Checks that a handle resolves to the DID. A handle that does not resolve at all counts as unverified,
+ * like Bluesky's `handle.invalid`; only a cancelled check fails.
+ */
+export function verifyHandleResolvesTo(
+  handle: string,
+  did: string,
+  endpoints: ResolverEndpoints = DEFAULT_ENDPOINTS,
+  options: HandleResolverOptions = {},
+): ResultAsync<boolean, AbortError> {
+  return resolveHandle(handle, endpoints, options)
+    .map((resolution) => resolution.did === did)
+    .orElse((error) => (error.type === 'ABORT_ERROR' ? err(error) : ok(false)));
+}
+
+/**
+ * Extracts the handles from an alsoKnownAs array.
+ */
+function _extractHandlesFromAlsoKnownAs(alsoKnownAs: unknown): string[] {
+  if (!Array.isArray(alsoKnownAs)) {
+    return [];
+  }
+  return alsoKnownAs
+    .filter((aka): aka is string => typeof aka === 'string' && aka.startsWith('at://'))
+    .map((aka) => aka.substring('at://'.length))
+    .filter(isValidHandle);
+}
+
+/**
+ * Reads the handle, PDS and rotation keys an operation sets. Legacy `create` operations predate
+ * `alsoKnownAs` and `services` and name a single handle, service, signing and recovery key.
+ */
+function _readPlcOperation(operation: Record<string, unknown>): PlcState | null {
+  if (operation.type === 'plc_operation') {
+    const services = isRecord(operation.services) ? operation.services : {};
+    const pds = isRecord(services.atproto_pds) ? services.atproto_pds.endpoint : undefined;
+    return {
+      handle: _extractHandlesFromAlsoKnownAs(operation.alsoKnownAs).at(0) ?? null,
+      pds: validateEndpointUrl(pds, 'endpoint').unwrapOr(null),
+      rotationKeys: _stringEntries(operation.rotationKeys),
+    };
+  }
+  if (operation.type === 'create') {
+    const { handle } = operation;
+    return {
+      handle: typeof handle === 'string' && isValidHandle(handle) ? handle : null,
+      pds: validateEndpointUrl(operation.service, 'service').unwrapOr(null),
+      rotationKeys: _stringEntries([operation.recoveryKey, operation.signingKey]),
+    };
+  }
   return null;
 }
 
+function _stringEntries(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+/**
+ * Calls `fn` for every item with at most `limit` calls pending at once.
+ */
+async function _mapWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T) => Promise<unknown>,
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+}
+
+/**
+ * Finds a `service` or `verificationMethod` entry by fragment. Ids may be relative (`#atproto`)
+ * or include the DID.
+ */
+function _findDidDocumentEntry(entries: unknown, did: string, fragment: string): Record<string, unknown> | undefined {
+  if (!Array.isArray(entries)) {
+    return undefined;
+  }
+  return entries.find(
+    (entry): entry is Record<string, unknown> =>
+      isRecord(entry) && (entry.id === fragment || entry.id === `${did}${fragment}`),
+  );
+}
+
 /**
  * Gets the well-known URL for a did:web DID.
  */
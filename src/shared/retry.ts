@@ -3,8 +3,9 @@
  * Uses neverthrow's ResultAsync for functional error handling
  */
 
-import { ResultAsync, err } from 'neverthrow';
+import { ResultAsync, err, errAsync, ok } from 'neverthrow';
 import type { WormholeError } from './errors';
+import { abortError, circuitOpenError, networkError } from './errors';
 import { logError } from './debug';
 
 interface RetryOptions {
@@ -13,9 +14,15 @@ interface RetryOptions {
   maxDelay?: number;
   backoffFactor?: number;
   shouldRetry?: (error: WormholeError) => boolean;
+  // Cancels the attempt in progress and any further ones
+  signal?: AbortSignal;
+  // Time allowed for all attempts and the delays between them, in ms
+  deadline?: number;
 }
 
-const DEFAULT_OPTIONS: Required<RetryOptions> = {
+type BackoffOptions = Required<Omit<RetryOptions, 'signal' | 'deadline'>>;
+
+const DEFAULT_OPTIONS: BackoffOptions = {
   maxAttempts: 3,
   initialDelay: 100, // ms
   maxDelay: 5000, // ms
@@ -27,16 +34,30 @@ const DEFAULT_OPTIONS: Required<RetryOptions> = {
 };
 
 /**
- * Utility function to create a delay promise
+ * Utility function to create a delay promise. Resolves early when the signal aborts.
  */
-const delay = (ms: number): Promise<void> => {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 };
 
+/**
+ * Combines a timeout with the caller's signal, for a single request.
+ */
+export const withTimeout = (timeout: number, signal?: AbortSignal): AbortSignal =>
+  signal ? AbortSignal.any([signal, AbortSignal.timeout(timeout)]) : AbortSignal.timeout(timeout);
+
 /**
  * Calculate the next delay using exponential backoff with jitter
  */
-const calculateDelay = (attempt: number, options: Required<RetryOptions>): number => {
+const calculateDelay = (attempt: number, options: BackoffOptions): number => {
   const exponentialDelay = options.initialDelay * Math.pow(options.backoffFactor, attempt);
   const delayWithJitter = exponentialDelay * (0.5 + Math.random() * 0.5); // 50-100% of calculated delay
   return Math.min(delayWithJitter, options.maxDelay);
@@ -45,7 +66,10 @@ const calculateDelay = (attempt: number, options: Required<RetryOptions>): numbe
 /**
  * Retry a function with exponential backoff
  *
- * @param fn Function that returns a ResultAsync
+ * Aborting `signal`, or running past `deadline`, ends the retries with an AbortError. `fn`
+ * receives a signal combining both, to cancel the attempt in progress.
+ *
+ * @param fn Function that returns a ResultAsync, given the signal that cancels the attempt
  * @param options Retry configuration options
  * @returns ResultAsync with retry logic applied
  *
@@ -63,13 +87,22 @@ const calculateDelay = (attempt: number, options: Required<RetryOptions>): numbe
  * ```
  */
 export function withRetry<T>(
-  fn: () => ResultAsync<T, WormholeError>,
-  options: RetryOptions = {},
+  fn: (signal?: AbortSignal) => ResultAsync<T, WormholeError>,
+  { signal: callerSignal, deadline, ...options }: RetryOptions = {},
 ): ResultAsync<T, WormholeError> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const deadlineAt = deadline === undefined ? Infinity : Date.now() + deadline;
+  const signal = deadline === undefined ? callerSignal : withTimeout(deadline, callerSignal);
 
   const attemptWithRetry = (attempt: number): ResultAsync<T, WormholeError> => {
-    return fn().orElse((error) => {
+    if (signal?.aborted) {
+      return errAsync(abortError(signal.reason));
+    }
+    return fn(signal).orElse((error) => {
+      if (error.type === 'ABORT_ERROR') {
+        return err(error);
+      }
+
       // Log the attempt for debugging
       logError('RETRY', error, { attempt, maxAttempts: opts.maxAttempts });
 
@@ -78,46 +111,249 @@ export function withRetry<T>(
         return err(error);
       }
 
-      // Calculate delay and retry
+      // Calculate delay and retry, unless the deadline passes first: the last error says more than a timeout
       const delayMs = calculateDelay(attempt - 1, opts);
+      if (Date.now() + delayMs >= deadlineAt) {
+        return err(error);
+      }
 
-      return ResultAsync.fromPromise(
-        delay(delayMs),
-        () => error, // This should never happen with delay
-      ).andThen(() => attemptWithRetry(attempt + 1));
+      return ResultAsync.fromSafePromise(delay(delayMs, signal)).andThen(() => attemptWithRetry(attempt + 1));
     });
   };
 
   return attemptWithRetry(1);
 }
 
+const NETWORK_DEFAULTS: RetryOptions = {
+  maxAttempts: 3,
+  deadline: 15000, // A lookup gives up after this long, however its attempts went
+  initialDelay: 500, // Higher initial delay for network requests
+  maxDelay: 10000, // Higher max delay for network requests
+  backoffFactor: 2.5, // More aggressive backoff for network
+  shouldRetry: (error: WormholeError) => {
+    if (error.type !== 'NETWORK_ERROR') return false;
+
+    // The host said when to come back, and it is later than we are willing to wait
+    if (error.retryAt !== undefined) return false;
+
+    // Retry on 5xx errors and network failures (no status)
+    if (!error.status) return true; // Network error without status (timeout, connection failed)
+    if (error.status >= 500) return true; // Server errors
+    if (error.status === 429) return true; // Rate limiting
+
+    return false; // Don't retry 4xx client errors
+  },
+};
+
 /**
  * Specialized retry function for network requests with default network-optimized settings
  *
- * @param fn Function that returns a ResultAsync
+ * @param fn Function that returns a ResultAsync, given the signal that cancels the attempt
  * @param customOptions Optional overrides for network-specific defaults
  * @returns ResultAsync with network retry logic applied
  */
 export function withNetworkRetry<T>(
-  fn: () => ResultAsync<T, WormholeError>,
+  fn: (signal?: AbortSignal) => ResultAsync<T, WormholeError>,
   customOptions: Partial<RetryOptions> = {},
 ): ResultAsync<T, WormholeError> {
-  const networkDefaults: RetryOptions = {
-    maxAttempts: 3,
-    initialDelay: 500, // Higher initial delay for network requests
-    maxDelay: 10000, // Higher max delay for network requests
-    backoffFactor: 2.5, // More aggressive backoff for network
-    shouldRetry: (error: WormholeError) => {
-      if (error.type !== 'NETWORK_ERROR') return false;
-
-      // Retry on 5xx errors and network failures (no status)
-      if (!error.status) return true; // Network error without status (timeout, connection failed)
-      if (error.status >= 500) return true; // Server errors
-      if (error.status === 429) return true; // Rate limiting
-
-      return false; // Don't retry 4xx client errors
-    },
+  return withRetry(fn, { ...NETWORK_DEFAULTS, ...customOptions });
+}
+
+/**
+ * Limits applied to every host that fetchWithRetry talks to
+ */
+const HOST_LIMITS = {
+  // Consecutive failures that open the circuit
+  failureThreshold: 5,
+  // How long an open circuit fails requests fast before one is let through to probe the host
+  cooldown: 30_000, // ms
+  // Token bucket: requests that can be sent at once, and how many more are allowed per second
+  burst: 10,
+  refillPerSecond: 5,
+};
+
+interface HostState {
+  failures: number;
+  // The circuit is open until then
+  openUntil: number;
+  // A request is probing the host after the cooldown; others still fail fast
+  probing: boolean;
+  // From a Retry-After header: requests wait until then
+  blockedUntil: number;
+  tokens: number;
+  refilledAt: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * What the service worker reports to the popup about a host that is failing or rate limiting us
+ */
+export interface HostStatus {
+  host: string;
+  state: CircuitState;
+  failures: number;
+  // When requests to the host will be sent again
+  retryAt?: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function hostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { failures: 0, openUntil: 0, probing: false, blockedUntil: 0, tokens: HOST_LIMITS.burst, refilledAt: 0 };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function circuitState(state: HostState, now: number): CircuitState {
+  if (state.failures < HOST_LIMITS.failureThreshold) return 'closed';
+  return state.openUntil > now ? 'open' : 'half-open';
+}
+
+/**
+ * Takes a token from the host's bucket and returns how long to wait before using it
+ */
+function takeToken(state: HostState, now: number): number {
+  const refill = ((now - state.refilledAt) / 1000) * HOST_LIMITS.refillPerSecond;
+  state.tokens = Math.min(HOST_LIMITS.burst, state.tokens + refill) - 1;
+  state.refilledAt = now;
+  // A negative balance reserves tokens that have yet to be added back
+  return state.tokens >= 0 ? 0 : (-state.tokens / HOST_LIMITS.refillPerSecond) * 1000;
+}
+
+function recordSuccess(state: HostState): void {
+  state.failures = 0;
+  state.openUntil = 0;
+  state.probing = false;
+}
+
+function recordFailure(state: HostState, now: number): void {
+  state.failures++;
+  state.probing = false;
+  if (state.failures >= HOST_LIMITS.failureThreshold) {
+    state.openUntil = now + HOST_LIMITS.cooldown;
+  }
+}
+
+/**
+ * Reads a Retry-After header, given in seconds or as an HTTP date, as the time it points to
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return now + Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(date, now);
+}
+
+/**
+ * Fetches a URL with network retries and per-host protection. Each host gets a token bucket
+ * that spaces out bursts of requests, and a circuit breaker that opens after consecutive
+ * failures: while it is open, requests fail fast with a NetworkError marked `circuitOpen`
+ * instead of being sent. A Retry-After header on 429 and 503 responses holds back further
+ * requests to the host until then.
+ *
+ * 5xx and 429 responses are errors; any other response is returned for the caller to read.
+ *
+ * @param url URL to GET
+ * @param description Message of the NetworkError when the request itself fails
+ * @param init Fetch options; pass `signal` in `options` instead, where it also cancels the retries
+ * @param options Retry overrides, cancellation and the timeout of each attempt in ms
+ */
+export function fetchWithRetry(
+  url: string,
+  description: string,
+  init: RequestInit = {},
+  { timeout = 5000, ...retryOptions }: Partial<RetryOptions> & { timeout?: number } = {},
+): ResultAsync<Response, WormholeError> {
+  const host = hostOf(url);
+  const maxDelay = retryOptions.maxDelay ?? NETWORK_DEFAULTS.maxDelay ?? DEFAULT_OPTIONS.maxDelay;
+
+  const attempt = (signal?: AbortSignal): ResultAsync<Response, WormholeError> => {
+    const state = hostState(host);
+    const now = Date.now();
+    const circuit = circuitState(state, now);
+
+    if (circuit === 'open' || (circuit === 'half-open' && state.probing)) {
+      return errAsync(circuitOpenError(url, Math.max(state.openUntil, now)));
+    }
+    if (state.blockedUntil - now > maxDelay) {
+      return errAsync({ ...networkError('Rate limited by host', url, 429), retryAt: state.blockedUntil });
+    }
+    state.probing = circuit === 'half-open';
+
+    // A cancelled request says nothing about the host, so it is not counted as a failure
+    const cancelled = (): WormholeError => {
+      state.probing = false;
+      return abortError(signal?.reason);
+    };
+
+    return ResultAsync.fromSafePromise(delay(Math.max(state.blockedUntil - now, takeToken(state, now)), signal))
+      .andThen(() => {
+        if (signal?.aborted) {
+          return errAsync(cancelled());
+        }
+        return ResultAsync.fromPromise(fetch(url, { ...init, signal: withTimeout(timeout, signal) }), (e) => {
+          if (signal?.aborted) {
+            return cancelled();
+          }
+          recordFailure(state, Date.now());
+          return networkError(description, url, undefined, e);
+        });
+      })
+      .andThen((resp) => {
+        const retryAt =
+          resp.status === 429 || resp.status === 503 ? parseRetryAfter(resp.headers.get('retry-after')) : null;
+        if (retryAt !== null) {
+          state.blockedUntil = Math.max(state.blockedUntil, retryAt);
+        }
+
+        // A host that rate limits us is up; only server errors count towards opening the circuit
+        if (resp.status >= 500) {
+          recordFailure(state, Date.now());
+        } else {
+          recordSuccess(state);
+        }
+        if (resp.status < 500 && resp.status !== 429) {
+          return ok(resp);
+        }
+
+        const error = networkError('HTTP error', url, resp.status);
+        return err(retryAt !== null && retryAt - Date.now() > maxDelay ? { ...error, retryAt } : error);
+      });
   };
 
-  return withRetry(fn, { ...networkDefaults, ...customOptions });
+  return withNetworkRetry(attempt, retryOptions);
+}
+
+/**
+ * Hosts whose circuit is not closed or that asked us to slow down, for the popup to report
+ */
+export function getHostStatuses(now = Date.now()): HostStatus[] {
+  const statuses: HostStatus[] = [];
+  for (const [host, state] of hosts) {
+    const circuit = circuitState(state, now);
+    const retryAt = Math.max(circuit === 'open' ? state.openUntil : 0, state.blockedUntil);
+    if (circuit === 'closed' && retryAt <= now) continue;
+    statuses.push({ host, state: circuit, failures: state.failures, ...(retryAt > now && { retryAt }) });
+  }
+  return statuses;
+}
+
+/**
+ * Forgets the failures, open circuits and rate limits of all hosts
+ */
+export function resetHostStates(): void {
+  hosts.clear();
 }
@@ -1,9 +1,16 @@
-import type { TransformInfo } from './types';
+import type { Destination, TransformInfo } from './types';
+import type { CustomServiceDefinition } from './custom-services';
+import { getCustomServiceConfigs } from './custom-services';
+import { STARTER_PACK_NSID } from './constants';
+import { contentNsid, contentRkey, supportsContent } from './content';
+import type { ContentKind } from './content';
+import { DEFAULT_ENDPOINTS, validateEndpointUrl } from './endpoints';
 
 export interface ServiceConfig {
   emoji: string;
   name: string;
-  contentSupport: 'only-profiles' | 'only-posts' | 'profiles-and-posts' | 'full';
+  // Content this service has a page for; strict mode hides it for anything else
+  supports: readonly ContentKind[];
 
   // Input parsing configuration
   parsing?: {
@@ -27,7 +34,7 @@ export interface ServiceConfig {
   };
 
   // Output building configuration
-  buildUrl: (info: TransformInfo) => string | null;
+  buildUrl: (info: TransformInfo, context: DestinationContext) => string | null;
   requiredFields?: {
     handle?: boolean;
     rkey?: boolean;
@@ -35,14 +42,45 @@ export interface ServiceConfig {
   };
 }
 
+/**
+ * Parses bsky.app's starter pack route, /starter-pack/<actor>/<rkey>, shared by its forks.
+ */
+function parseStarterPackPath(url: URL): string | null {
+  const match = /^\/starter-pack\/([^/]+)\/([^/]+)/.exec(url.pathname);
+  return match ? `${match[1]}/${STARTER_PACK_NSID}/${match[2]}` : null;
+}
+
+// bsky.app and its forks have pages for these
+const BSKY_APP_CONTENT: readonly ContentKind[] = ['profile', 'post', 'feed', 'list', 'starter-pack'];
+// Repository browsers show any record by its AT URI
+const REPO_BROWSER_CONTENT: readonly ContentKind[] = [...BSKY_APP_CONTENT, 'record', 'collection'];
+// Everything stored as a single record
+const RECORD_CONTENT: readonly ContentKind[] = ['post', 'feed', 'list', 'starter-pack', 'record'];
+
+/**
+ * Builds the `com.atproto.repo.getRecord` URL for record content, asking the account's PDS when
+ * it is known and the configured AppView otherwise.
+ */
+function buildGetRecordUrl(info: TransformInfo, context: DestinationContext): string | null {
+  const repo = info.did ?? info.handle;
+  const collection = contentNsid(info.content);
+  const rkey = contentRkey(info.content);
+  if (!repo || !collection || !rkey) return null;
+
+  const host = info.pds ?? validateEndpointUrl(context.appViewUrl, 'appViewUrl').unwrapOr(DEFAULT_ENDPOINTS.appView);
+  const params = new URLSearchParams({ repo, collection, rkey });
+  return `${host}/xrpc/com.atproto.repo.getRecord?${params.toString()}`;
+}
+
 export const SERVICES: Record<string, ServiceConfig> = {
   DEER_SOCIAL: {
     emoji: '🦌',
     name: 'deer.social',
-    contentSupport: 'full',
+    supports: BSKY_APP_CONTENT,
     parsing: {
       hostname: 'deer.social',
       patterns: {
+        customParser: parseStarterPackPath,
         // Matches /profile/IDENTIFIER where IDENTIFIER can be handle or DID
         profileIdentifier: /^\/profile\/([^/]+)/,
       },
@@ -53,10 +91,11 @@ export const SERVICES: Record<string, ServiceConfig> = {
   BSKY_APP: {
     emoji: '🦋',
     name: 'bsky.app',
-    contentSupport: 'full',
+    supports: BSKY_APP_CONTENT,
     parsing: {
       hostname: 'bsky.app',
       patterns: {
+        customParser: parseStarterPackPath,
         // Matches /profile/IDENTIFIER where IDENTIFIER can be handle or DID
         profileIdentifier: /^\/profile\/([^/]+)/,
       },
@@ -67,7 +106,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   ATP_TOOLS: {
     emoji: '🛠️',
     name: 'atp.tools',
-    contentSupport: 'full',
+    supports: REPO_BROWSER_CONTENT,
     parsing: {
       hostname: 'atp.tools',
       patterns: {
@@ -88,7 +127,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   PDSLS_DEV: {
     emoji: '⚙️',
     name: 'pdsls.dev',
-    contentSupport: 'full',
+    supports: REPO_BROWSER_CONTENT,
     parsing: {
       hostname: 'pdsls.dev',
       patterns: {
@@ -105,7 +144,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   REPOVIEW: {
     emoji: '📁',
     name: 'repoview.edavis.dev',
-    contentSupport: 'full',
+    supports: REPO_BROWSER_CONTENT,
     parsing: {
       hostname: 'repoview.edavis.dev',
       patterns: {
@@ -122,7 +161,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   ASTROLABE: {
     emoji: '🔭',
     name: 'astrolabe.at',
-    contentSupport: 'full',
+    supports: REPO_BROWSER_CONTENT,
     parsing: {
       hostname: 'astrolabe.at',
       patterns: {
@@ -143,7 +182,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   CLEARSKY: {
     emoji: '☀️',
     name: 'clearsky',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'clearsky.app',
       patterns: {
@@ -157,7 +196,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   SKYTHREAD: {
     emoji: '☁️',
     name: 'skythread',
-    contentSupport: 'only-posts',
+    supports: ['post'],
     parsing: {
       hostname: 'blue.mackuba.eu',
       patterns: {
@@ -174,14 +213,17 @@ export const SERVICES: Record<string, ServiceConfig> = {
         },
       },
     },
-    buildUrl: (info) => (info.rkey ? `https://blue.mackuba.eu/skythread/?author=${info.did}&post=${info.rkey}` : null),
+    buildUrl: (info) =>
+      info.content.kind === 'post' ?
+        `https://blue.mackuba.eu/skythread/?author=${info.did}&post=${info.content.rkey}`
+      : null,
     requiredFields: { rkey: true },
   },
 
   CRED_BLUE: {
     emoji: '🍥',
     name: 'cred.blue',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'cred.blue',
       patterns: {
@@ -196,7 +238,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   TANGLED_SH: {
     emoji: '🪢',
     name: 'tangled.sh',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'tangled.sh',
       patterns: {
@@ -211,7 +253,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   FRONTPAGE_FYI: {
     emoji: '📰',
     name: 'frontpage.fyi',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'frontpage.fyi',
       patterns: {
@@ -226,7 +268,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   BOAT_KELINCI: {
     emoji: '⛵',
     name: 'boat.kelinci',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'boat.kelinci.net',
       patterns: {
@@ -241,7 +283,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   PLC_DIRECTORY: {
     emoji: '🪪',
     name: 'plc.directory',
-    contentSupport: 'only-profiles',
+    supports: ['profile'],
     parsing: {
       hostname: 'plc.directory',
       patterns: {
@@ -256,7 +298,7 @@ export const SERVICES: Record<string, ServiceConfig> = {
   TOOLIFY_BLUE: {
     emoji: '🔧',
     name: 'toolify.blue',
-    contentSupport: 'profiles-and-posts',
+    supports: ['profile', 'post'],
     parsing: {
       hostname: 'toolify.blue',
       patterns: {
@@ -267,14 +309,129 @@ export const SERVICES: Record<string, ServiceConfig> = {
     buildUrl: (info) => `https://toolify.blue${info.bskyAppPath}`,
     requiredFields: { plcOnly: true },
   },
+
+  RAW_RECORD: {
+    emoji: '🧾',
+    name: 'raw record (JSON)',
+    supports: RECORD_CONTENT,
+    buildUrl: buildGetRecordUrl,
+    requiredFields: { rkey: true },
+  },
+
+  PDS_DESCRIBE_REPO: {
+    emoji: '🗄️',
+    name: 'describeRepo (PDS)',
+    supports: ['profile'],
+    buildUrl: (info) =>
+      info.pds && info.did ?
+        `${info.pds}/xrpc/com.atproto.repo.describeRepo?repo=${encodeURIComponent(info.did)}`
+      : null,
+  },
+
+  PDS_REPO_CAR: {
+    emoji: '📦',
+    name: 'repository CAR export (PDS)',
+    supports: ['profile'],
+    buildUrl: (info) =>
+      info.pds && info.did ? `${info.pds}/xrpc/com.atproto.sync.getRepo?did=${encodeURIComponent(info.did)}` : null,
+  },
+
+  PDS_BLOB: {
+    emoji: '🧱',
+    name: 'raw blob (PDS)',
+    supports: ['blob'],
+    // The blob as stored, straight from the account's PDS rather than a re-encoded CDN copy
+    buildUrl: (info) =>
+      info.content.kind === 'blob' && info.pds && info.did ?
+        `${info.pds}/xrpc/com.atproto.sync.getBlob?did=${encodeURIComponent(info.did)}&cid=${info.content.cid}`
+      : null,
+  },
 };
 
+/**
+ * Extra configuration that affects which destinations are built.
+ * Field names match WormholeOptions so the options object can be passed directly.
+ */
+export interface DestinationContext {
+  /** Prefix labels with the service's emoji (default true) */
+  showEmojis?: boolean;
+  /** Only include services that have a page for this kind of content (default false) */
+  strictMode?: boolean;
+  customServices?: CustomServiceDefinition[];
+  serviceLayout?: ServiceLayout;
+  appViewUrl?: string;
+}
+
+/**
+ * User preferences for which services appear in the popup and in what order.
+ * Services are identified by their key in SERVICES, or `custom:<id>` for custom services.
+ */
+export interface ServiceLayout {
+  order: string[];
+  hidden: string[];
+}
+
+/**
+ * Returns the built-in services followed by the user's custom services.
+ */
+export function getAllServices(customServices: readonly CustomServiceDefinition[] = []): Record<string, ServiceConfig> {
+  return { ...SERVICES, ...getCustomServiceConfigs(customServices) };
+}
+
+/**
+ * Orders service keys according to a saved order.
+ * Keys missing from the saved order (e.g. services added in a later release) are placed
+ * directly after the key that precedes them in declaration order, or first if there is none.
+ */
+export function orderServiceKeys(keys: readonly string[], savedOrder: readonly string[]): string[] {
+  const known = new Set(keys);
+  const ordered = [...new Set(savedOrder)].filter((key) => known.has(key));
+  const placed = new Set(ordered);
+
+  keys.forEach((key, index) => {
+    if (placed.has(key)) return;
+
+    let insertAt = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const position = ordered.indexOf(keys[i]);
+      if (position !== -1) {
+        insertAt = position + 1;
+        break;
+      }
+    }
+
+    ordered.splice(insertAt, 0, key);
+    placed.add(key);
+  });
+
+  return ordered;
+}
+
+/**
+ * Returns the services reordered by the layout, without the hidden ones.
+ */
+export function applyServiceLayout(
+  services: Record<string, ServiceConfig>,
+  layout?: ServiceLayout,
+): Record<string, ServiceConfig> {
+  if (!layout) return services;
+
+  const hidden = new Set(layout.hidden);
+  const result: Record<string, ServiceConfig> = {};
+  for (const key of orderServiceKeys(Object.keys(services), layout.order)) {
+    if (!hidden.has(key)) {
+      result[key] = services[key];
+    }
+  }
+  return result;
+}
+
 /**
  * Parses a URL using service configurations to extract AT Protocol identifiers.
  * Returns a string that can be passed to canonicalize() or null if no match.
  */
-export function parseUrlFromServices(url: URL): string | null {
-  for (const service of Object.values(SERVICES)) {
+export function parseUrlFromServices(url: URL, customServices: readonly CustomServiceDefinition[] = []): string | null {
+  for (const service of Object.values(getAllServices(customServices))) {
     if (!service.parsing) continue;
 
     // Check if hostname matches (support string or array)
@@ -336,42 +493,30 @@ export function parseUrlFromServices(url: URL): string | null {
 /**
  * Builds a list of destination link objects from canonical info using service configuration.
  */
-export function buildDestinations(
-  info: TransformInfo,
-  showEmojis = true,
-  strictMode = false,
-): { label: string; url: string }[] {
+export function buildDestinations(info: TransformInfo, context: DestinationContext = {}): Destination[] {
+  const { showEmojis = true, strictMode = false } = context;
   const isDidWeb = info.did?.startsWith('did:web:') ?? false;
-  const destinations: { label: string; url: string }[] = [];
+  const destinations: Destination[] = [];
 
-  for (const service of Object.values(SERVICES)) {
+  const services = applyServiceLayout(getAllServices(context.customServices), context.serviceLayout);
+
+  for (const [key, service] of Object.entries(services)) {
     // Check required fields
     if (service.requiredFields) {
       if (service.requiredFields.handle && !info.handle) continue;
-      if (service.requiredFields.rkey && !info.rkey) continue;
+      if (service.requiredFields.rkey && !contentRkey(info.content)) continue;
       if (service.requiredFields.plcOnly && isDidWeb) continue;
     }
 
-    // Strict mode filtering
-    if (strictMode && info.rkey) {
-      // When viewing content (posts/feeds/lists), apply strict filtering
-      if (info.nsid === 'app.bsky.feed.post') {
-        // For posts: include only-posts, profiles-and-posts, and full
-        if (!['only-posts', 'profiles-and-posts', 'full'].includes(service.contentSupport)) {
-          continue;
-        }
-      } else if (info.nsid === 'app.bsky.feed.generator' || info.nsid === 'app.bsky.graph.list') {
-        // For feeds/lists: include only full support services
-        if (service.contentSupport !== 'full') {
-          continue;
-        }
-      }
+    // Strict mode: only services that have a page for this kind of content
+    if (strictMode && !supportsContent(service.supports, info.content)) {
+      continue;
     }
 
-    const url = service.buildUrl(info);
+    const url = service.buildUrl(info, context);
     if (url) {
       const label = showEmojis ? `${service.emoji} ${service.name}` : service.name;
-      destinations.push({ label, url });
+      destinations.push({ key, label, url });
     }
   }
 
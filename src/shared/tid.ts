@@ -0,0 +1,40 @@
+import type { Result } from 'neverthrow';
+import type { ValidationError } from './errors';
+import { validateTid } from './validation';
+
+/**
+ * The parts of a TID: when the record key was generated and by which clock.
+ */
+export interface DecodedTid {
+  // Microseconds since the Unix epoch
+  timestamp: number;
+  clockId: number;
+}
+
+const BASE32_SORTABLE = '234567abcdefghijklmnopqrstuvwxyz';
+
+function decodeBase32Sortable(value: string): number {
+  let decoded = 0;
+  for (const char of value) {
+    decoded = decoded * 32 + BASE32_SORTABLE.indexOf(char);
+  }
+  return decoded;
+}
+
+/**
+ * Decodes a TID record key. The first 11 characters hold the 53-bit timestamp (the top bit is always
+ * zero), the last two the 10-bit clock ID, so both fit in a number without BigInt.
+ */
+export function decodeTid(tid: string): Result<DecodedTid, ValidationError> {
+  return validateTid(tid).map((valid) => ({
+    timestamp: decodeBase32Sortable(valid.slice(0, 11)),
+    clockId: decodeBase32Sortable(valid.slice(11)),
+  }));
+}
+
+/**
+ * Formats a TID's timestamp as `2024-03-12 14:02 UTC`.
+ */
+export function formatTidTimestamp({ timestamp }: DecodedTid): string {
+  return `${new Date(timestamp / 1000).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
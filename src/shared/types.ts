@@ -1,10 +1,18 @@
+import type { CacheEntryInfo, CacheStats } from './cache';
+import type { Content } from './content';
+import type { DecodedTid } from './tid';
+import type { DidDocument, PlcHistoryEvent } from './resolver';
+
 export interface TransformInfo {
   atUri: string | null;
   did: string | null;
   handle: string | null;
-  rkey?: string;
-  nsid?: string;
+  content: Content;
   bskyAppPath: string;
+  // Set when the record key is a TID, which encodes when the record was created
+  tid?: DecodedTid;
+  // Origin of the account's PDS, when known
+  pds?: string;
 }
 
 export interface CacheEntry {
@@ -16,9 +24,73 @@ export type SWMessage =
   | { type: 'UPDATE_CACHE'; did: string; handle: string }
   | { type: 'GET_HANDLE'; did: string }
   | { type: 'GET_DID'; handle: string }
+  | { type: 'GET_IDENTITY'; did: string }
+  | { type: 'GET_DID_DOCUMENT'; did: string }
+  | { type: 'RESOLVE_MANY'; dids: string[] }
+  | { type: 'GET_PROFILE'; did: string }
+  | { type: 'GET_RECORD_PREVIEW'; atUri: string }
+  | { type: 'GET_NETWORK_STATUS' }
   | { type: 'CLEAR_CACHE' }
+  | { type: 'LIST_CACHE' }
+  | { type: 'DELETE_CACHE_ENTRY'; did: string }
+  | { type: 'REFRESH_CACHE_ENTRY'; did: string }
   | { type: 'DEBUG_LOG'; message: string };
 
+// Name of the port the popup sends resolutions through; the service worker cancels them when it disconnects
+export const RESOLVER_PORT = 'resolver';
+
+/**
+ * A message sent through the resolver port, and its response. `id` pairs the two.
+ */
+export interface PortRequest {
+  id: number;
+  request: SWMessage;
+}
+
+export interface PortResponse {
+  id: number;
+  response: unknown;
+}
+
+/**
+ * Response to `LIST_CACHE`: every cached pair plus counters for the cache inspector.
+ */
+export interface CacheListing {
+  entries: CacheEntryInfo[];
+  stats: CacheStats & { bytesInUse: number };
+}
+
+/**
+ * Response to `GET_DID_DOCUMENT`: the document as fetched, plus the rotation keys and operation
+ * history for did:plc.
+ */
+export interface DidDocumentView {
+  did: string;
+  document: DidDocument;
+  rotationKeys?: string[];
+  history?: PlcHistoryEvent[];
+  fromCache: boolean;
+}
+
+/**
+ * One entry of the response to `RESOLVE_MANY`, in the order the DIDs were asked for.
+ */
+export type ResolveManyResult =
+  | { did: string; handle: string | null; fromCache: boolean; verified?: boolean }
+  | { did: string; error: string };
+
+/**
+ * Sent by the service worker when revalidating a stale cache entry found a different DID or handle.
+ */
+export interface IdentityUpdateMessage {
+  type: 'IDENTITY_UPDATED';
+  previousDid: string;
+  previousHandle: string;
+  did: string | null;
+  handle: string | null;
+  verified?: boolean;
+}
+
 export interface ThemeColors {
   accentcolor?: string;
   textcolor?: string;
@@ -49,6 +121,7 @@ export interface BrowserWithTheme {
 }
 
 export interface Destination {
+  key: string;
   url: string;
   label: string;
 }
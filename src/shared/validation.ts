@@ -0,0 +1,241 @@
+import { Result, ok, err } from 'neverthrow';
+import type { ValidationError } from './errors';
+import { validationError } from './errors';
+
+/**
+ * Syntax rules for AT Protocol identifiers, following https://atproto.com/specs.
+ * Validators return the value unchanged on success and describe the first rule it breaks otherwise.
+ */
+
+export interface AtUri {
+  authority: string;
+  collection?: string;
+  rkey?: string;
+  query?: string;
+  fragment?: string;
+}
+
+const MAX_DID_LENGTH = 2048;
+const MAX_HANDLE_LENGTH = 253;
+const MAX_NSID_LENGTH = 317;
+const MAX_DOMAIN_SEGMENT_LENGTH = 63;
+const MAX_RECORD_KEY_LENGTH = 512;
+const MAX_AT_URI_LENGTH = 8192;
+const MIN_CID_LENGTH = 8;
+const MAX_CID_LENGTH = 256;
+
+// Special-use TLDs that can never be registered, so handles under them never resolve
+const DISALLOWED_HANDLE_TLDS: readonly string[] = [
+  'alt',
+  'arpa',
+  'example',
+  'internal',
+  'invalid',
+  'local',
+  'localhost',
+  'onion',
+];
+
+const DOMAIN_SEGMENT_PATTERN = /^[a-zA-Z0-9-]+$/;
+const RECORD_KEY_PATTERN = /^[a-zA-Z0-9._:~-]+$/;
+const TID_PATTERN = /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/;
+const AT_URI_QUERY_PATTERN = /^[a-zA-Z0-9._~:@!$&'()*+,;=%/?-]*$/;
+const AT_URI_FRAGMENT_PATTERN = /^\/[a-zA-Z0-9._~:@!$&'()*+,;=%[\]/-]*$/;
+
+/**
+ * Checks the dot-separated segments shared by handles and NSID authorities.
+ */
+function validateDomainSegments(
+  segments: readonly string[],
+  label: string,
+  field: string,
+  value: string,
+): Result<string, ValidationError> {
+  for (const segment of segments) {
+    if (!segment.length || segment.length > MAX_DOMAIN_SEGMENT_LENGTH) {
+      return err(validationError(`${label} segments must be 1 to 63 characters long`, field, value));
+    }
+    if (!DOMAIN_SEGMENT_PATTERN.test(segment)) {
+      return err(validationError(`${label} contains invalid characters`, field, value));
+    }
+    if (segment.startsWith('-') || segment.endsWith('-')) {
+      return err(validationError(`${label} segments must not start or end with a hyphen`, field, value));
+    }
+  }
+  return ok(value);
+}
+
+/**
+ * Validates generic DID syntax: `did:<method>:<identifier>`. The method itself is not checked.
+ */
+export function validateDid(did: string): Result<string, ValidationError> {
+  if (!did.startsWith('did:')) {
+    return err(validationError('DID must start with "did:"', 'did', did));
+  }
+  if (did.length > MAX_DID_LENGTH) {
+    return err(validationError(`DID is longer than ${MAX_DID_LENGTH} characters`, 'did', did));
+  }
+  const [, method, ...identifier] = did.split(':');
+  if (!method || !/^[a-z]+$/.test(method)) {
+    return err(validationError('DID method must be lowercase letters', 'did', did));
+  }
+  const id = identifier.join(':');
+  if (!id) {
+    return err(validationError('DID is missing its identifier', 'did', did));
+  }
+  if (!/^[a-zA-Z0-9._:%-]+$/.test(id)) {
+    return err(validationError('DID identifier contains invalid characters', 'did', did));
+  }
+  if (id.endsWith(':') || id.endsWith('%')) {
+    return err(validationError('DID must not end with ":" or "%"', 'did', did));
+  }
+  return ok(did);
+}
+
+/**
+ * Validates handle syntax: a domain name with at least two segments and a TLD that can resolve.
+ */
+export function validateHandle(handle: string): Result<string, ValidationError> {
+  if (handle.length > MAX_HANDLE_LENGTH) {
+    return err(validationError(`Handle is longer than ${MAX_HANDLE_LENGTH} characters`, 'handle', handle));
+  }
+  const segments = handle.split('.');
+  if (segments.length < 2) {
+    return err(validationError('Handle must be a domain name with at least two segments', 'handle', handle));
+  }
+  return validateDomainSegments(segments, 'Handle', 'handle', handle).andThen(() => {
+    const tld = segments[segments.length - 1].toLowerCase();
+    if (/^[0-9]/.test(tld)) {
+      return err(validationError('Handle top-level domain must not start with a digit', 'handle', handle));
+    }
+    if (DISALLOWED_HANDLE_TLDS.includes(tld)) {
+      return err(validationError(`Handles under ".${tld}" are not allowed`, 'handle', handle));
+    }
+    return ok(handle);
+  });
+}
+
+/**
+ * Validates NSID syntax: a reversed domain authority followed by a name, e.g. `app.bsky.feed.post`.
+ */
+export function validateNsid(nsid: string): Result<string, ValidationError> {
+  if (nsid.length > MAX_NSID_LENGTH) {
+    return err(validationError(`NSID is longer than ${MAX_NSID_LENGTH} characters`, 'nsid', nsid));
+  }
+  const segments = nsid.split('.');
+  if (segments.length < 3) {
+    return err(validationError('NSID must have at least three segments', 'nsid', nsid));
+  }
+  const name = segments[segments.length - 1];
+  const authority = segments.slice(0, -1);
+  if (authority.join('.').length > MAX_HANDLE_LENGTH) {
+    return err(validationError(`NSID domain authority is longer than ${MAX_HANDLE_LENGTH} characters`, 'nsid', nsid));
+  }
+  return validateDomainSegments(authority, 'NSID', 'nsid', nsid).andThen(() => {
+    if (/^[0-9]/.test(authority[0])) {
+      return err(validationError('NSID must not start with a digit', 'nsid', nsid));
+    }
+    if (!name || name.length > MAX_DOMAIN_SEGMENT_LENGTH) {
+      return err(validationError('NSID name must be 1 to 63 characters long', 'nsid', nsid));
+    }
+    if (!/^[a-zA-Z][a-zA-Z0-9]*$/.test(name)) {
+      return err(validationError('NSID name must be letters and digits, starting with a letter', 'nsid', nsid));
+    }
+    return ok(nsid);
+  });
+}
+
+/**
+ * Validates record key syntax.
+ */
+export function validateRecordKey(rkey: string): Result<string, ValidationError> {
+  if (!rkey.length || rkey.length > MAX_RECORD_KEY_LENGTH) {
+    return err(validationError(`Record key must be 1 to ${MAX_RECORD_KEY_LENGTH} characters long`, 'rkey', rkey));
+  }
+  if (rkey === '.' || rkey === '..') {
+    return err(validationError('Record key must not be "." or ".."', 'rkey', rkey));
+  }
+  if (!RECORD_KEY_PATTERN.test(rkey)) {
+    return err(validationError('Record key contains invalid characters', 'rkey', rkey));
+  }
+  return ok(rkey);
+}
+
+/**
+ * Validates TID syntax: 13 base32-sortable characters with the top bit of the first one unset.
+ */
+export function validateTid(tid: string): Result<string, ValidationError> {
+  if (tid.length !== 13) {
+    return err(validationError('TID must be 13 characters long', 'tid', tid));
+  }
+  if (!TID_PATTERN.test(tid)) {
+    return err(validationError('TID contains invalid characters', 'tid', tid));
+  }
+  return ok(tid);
+}
+
+/**
+ * Validates CID syntax loosely, like the lexicon `cid` string format: the encoding itself is not decoded.
+ */
+export function validateCid(cid: string): Result<string, ValidationError> {
+  if (cid.length < MIN_CID_LENGTH || cid.length > MAX_CID_LENGTH) {
+    return err(validationError(`CID must be ${MIN_CID_LENGTH} to ${MAX_CID_LENGTH} characters long`, 'cid', cid));
+  }
+  if (!/^[a-zA-Z0-9+=]+$/.test(cid)) {
+    return err(validationError('CID contains invalid characters', 'cid', cid));
+  }
+  return ok(cid);
+}
+
+/**
+ * Validates the repository part of an AT URI, which is either a DID or a handle.
+ */
+export function validateAtIdentifier(identifier: string): Result<string, ValidationError> {
+  return identifier.startsWith('did:') ? validateDid(identifier) : validateHandle(identifier);
+}
+
+/**
+ * Parses and validates an `at://` URI, including its optional query and fragment.
+ */
+export function parseAtUri(uri: string): Result<AtUri, ValidationError> {
+  if (!uri.startsWith('at://')) {
+    return err(validationError('AT URI must start with "at://"', 'atUri', uri));
+  }
+  if (uri.length > MAX_AT_URI_LENGTH) {
+    return err(validationError(`AT URI is longer than ${MAX_AT_URI_LENGTH} characters`, 'atUri', uri));
+  }
+
+  const [beforeFragment, ...fragmentParts] = uri.slice('at://'.length).split('#');
+  const fragment = fragmentParts.length ? fragmentParts.join('#') : undefined;
+  const [path, ...queryParts] = beforeFragment.split('?');
+  const query = queryParts.length ? queryParts.join('?') : undefined;
+
+  if (fragment !== undefined && !AT_URI_FRAGMENT_PATTERN.test(fragment)) {
+    return err(validationError('AT URI fragment must be a path starting with "/"', 'atUri', uri));
+  }
+  if (query !== undefined && !AT_URI_QUERY_PATTERN.test(query)) {
+    return err(validationError('AT URI query contains invalid characters', 'atUri', uri));
+  }
+
+  const [authority, ...segments] = path.split('/');
+  if (!authority) {
+    return err(validationError('AT URI is missing its repository', 'atUri', uri));
+  }
+  if (segments.length > 2 || segments.includes('')) {
+    return err(validationError('AT URI path must be at most a collection and a record key', 'atUri', uri));
+  }
+  const [collection, rkey] = segments as [string?, string?];
+
+  return validateAtIdentifier(authority)
+    .andThen(() => (collection === undefined ? ok(undefined) : validateNsid(collection)))
+    .andThen(() => (rkey === undefined ? ok(undefined) : validateRecordKey(rkey)))
+    .map(() => ({ authority, collection, rkey, query, fragment }));
+}
+
+export function isValidDid(did: string): boolean {
+  return validateDid(did).isOk();
+}
+
+export function isValidHandle(handle: string): boolean {
+  return validateHandle(handle).isOk();
+}
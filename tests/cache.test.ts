@@ -267,7 +267,7 @@ describe('DidHandleCache', () => {
       expect(cache.size).toBe(1);
     });
 
-    test('should immediately persist to storage on set', async () => {
+    test('should persist on flush rather than on set', async () => {
       await cache.set('did:plc:123', 'alice.bsky.social').match(
         () => {
           // Success case - cache set
@@ -277,24 +277,39 @@ describe('DidHandleCache', () => {
         },
       );
 
+      expect(mockStorage.local.set).not.toHaveBeenCalled();
+      expect(cache.hasPendingWrites).toBe(true);
+
+      await cache.flush();
+
       expect(mockStorage.local.set).toHaveBeenCalledTimes(1);
+      expect(cache.hasPendingWrites).toBe(false);
     });
 
     test('should update lastAccessed on get operations', async () => {
-      await cache.set('did:plc:123', 'alice.bsky.social').match(
-        () => {
-          // Success case - cache set
-        },
-        () => {
-          // Error case - should not happen in this test
-        },
-      );
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.flush();
+      const [before] = mockStorage.local.set.mock.calls[0] as unknown as [Record<string, unknown>];
 
       await new Promise((resolve) => setTimeout(resolve, 10));
 
       cache.getHandle('did:plc:123');
+      await cache.flush();
 
       expect(mockStorage.local.set).toHaveBeenCalledTimes(2);
+      const [after] = mockStorage.local.set.mock.calls[1] as unknown as [Record<string, unknown>];
+      expect(JSON.stringify(after)).not.toBe(JSON.stringify(before));
+    });
+
+    test('should not persist reads until the cache flushes', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.flush();
+      mockStorage.local.set.mockClear();
+
+      cache.getHandle('did:plc:123');
+      cache.getDid('alice.bsky.social');
+
+      expect(mockStorage.local.set).not.toHaveBeenCalled();
     });
 
     test('should return undefined for non-existent mappings', () => {
@@ -360,6 +375,7 @@ describe('DidHandleCache', () => {
           'did:plc:123456789': {
             handle: 'very-long-handle-name.bsky.social',
             lastAccessed: Date.now(),
+            resolvedAt: Date.now(),
           },
         },
       }).length;
@@ -439,6 +455,331 @@ describe('DidHandleCache', () => {
     });
   });
 
+  describe('expiry and migration', () => {
+    test('should persist entries in the sharded format', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.flush();
+
+      const [stored] = mockStorage.local.set.mock.calls.at(-1) as unknown as [Record<string, unknown>];
+      expect(stored['wormhole-cache']).toEqual({ version: 3, shardCount: 32 });
+
+      const shardKeys = Object.keys(stored).filter((key) => key !== 'wormhole-cache');
+      expect(shardKeys).toHaveLength(1);
+      expect(shardKeys[0]).toMatch(/^wormhole-cache:\d+$/);
+      const entries = stored[shardKeys[0]] as Record<string, Record<string, unknown>>;
+      expect(Object.keys(entries)).toEqual(['did:plc:123']);
+      expect(entries['did:plc:123'].handle).toBe('alice.bsky.social');
+      expect(typeof entries['did:plc:123'].resolvedAt).toBe('number');
+    });
+
+    test('should only rewrite the shards that changed', async () => {
+      for (let i = 0; i < 100; i++) {
+        await cache.set(`did:plc:user${i}`, `user${i}.bsky.social`);
+      }
+      await cache.flush();
+      mockStorage.local.set.mockClear();
+
+      cache.getHandle('did:plc:user1');
+      await cache.flush();
+
+      const [stored] = mockStorage.local.set.mock.calls[0] as unknown as [Record<string, unknown>];
+      const shardKeys = Object.keys(stored).filter((key) => key !== 'wormhole-cache');
+      expect(shardKeys).toHaveLength(1);
+      expect(Object.keys(stored[shardKeys[0]] as object)).toContain('did:plc:user1');
+      expect(Object.keys(stored[shardKeys[0]] as object).length).toBeLessThan(100);
+    });
+
+    test('should flush automatically after the debounce delay', async () => {
+      cache = new DidHandleCache(undefined, undefined, 20);
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.set('did:plc:456', 'bob.bsky.social');
+      expect(mockStorage.local.set).not.toHaveBeenCalled();
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockStorage.local.set).toHaveBeenCalledTimes(1);
+      expect(cache.hasPendingWrites).toBe(false);
+    });
+
+    test('should migrate legacy entries as stale and persist the new format', async () => {
+      const lastAccessed = Date.now();
+      mockStorage.local.get.mockResolvedValue({
+        'wormhole-cache': { 'did:plc:123': { handle: 'alice.bsky.social', lastAccessed } },
+      });
+
+      await cache.load();
+
+      expect(cache.getHandle('did:plc:123')).toBe('alice.bsky.social');
+      expect(cache.isStale('did:plc:123')).toBe(true);
+      const [stored] = mockStorage.local.set.mock.calls[0] as unknown as [Record<string, unknown>];
+      expect(stored['wormhole-cache']).toEqual({ version: 3, shardCount: 32 });
+      expect(Object.values(stored)).toContainEqual({
+        'did:plc:123': { handle: 'alice.bsky.social', lastAccessed, resolvedAt: 0 },
+      });
+    });
+
+    test('should migrate the single-key versioned format to shards', async () => {
+      mockStorage.local.get.mockResolvedValue({
+        'wormhole-cache': {
+          version: 2,
+          entries: { 'did:plc:123': { handle: 'alice.bsky.social', lastAccessed: 1, resolvedAt: Date.now() } },
+        },
+      });
+
+      await cache.load();
+
+      expect(cache.isStale('did:plc:123')).toBe(false);
+      const [stored] = mockStorage.local.set.mock.calls[0] as unknown as [Record<string, unknown>];
+      expect(stored['wormhole-cache']).toEqual({ version: 3, shardCount: 32 });
+      expect(Object.keys(stored)).toHaveLength(33);
+    });
+
+    test('should load the sharded format without rewriting it', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.flush();
+      const [persisted] = mockStorage.local.set.mock.calls[0] as unknown as [Record<string, unknown>];
+      mockStorage.local.get.mockResolvedValue(persisted);
+      mockStorage.local.set.mockClear();
+
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+
+      expect(mockStorage.local.set).not.toHaveBeenCalled();
+      expect(reloaded.isStale('did:plc:123')).toBe(false);
+      expect(reloaded.getDid('alice.bsky.social')).toBe('did:plc:123');
+    });
+
+    test('should mark entries stale once the TTL has passed', async () => {
+      cache = new DidHandleCache(undefined, 50);
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      expect(cache.isStale('did:plc:123')).toBe(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(cache.isStale('did:plc:123')).toBe(true);
+
+      // Setting the pair again counts as revalidation
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      expect(cache.isStale('did:plc:123')).toBe(false);
+    });
+
+    test('should apply a changed TTL to existing entries', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      cache.setTtl(0);
+
+      expect(cache.isStale('did:plc:123')).toBe(true);
+      expect(cache.isStale('did:plc:456')).toBe(false);
+    });
+  });
+
+  describe('entry metadata', () => {
+    test('should persist and reload the source of an entry', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social', { source: 'https://plc.directory' });
+      await cache.flush();
+
+      const persisted = mockStorage.local.set.mock.calls.at(-1) as unknown as [Record<string, unknown>];
+      mockStorage.local.get.mockResolvedValue(persisted[0]);
+
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+      await reloaded.invalidateSources(['https://plc.example.test']);
+
+      expect(reloaded.getHandle('did:plc:123')).toBeUndefined();
+    });
+
+    test('should remove entries from inactive sources and keep unsourced ones', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social', { source: 'https://plc.directory' });
+      await cache.set('did:plc:456', 'bob.bsky.social', { source: 'https://plc.mirror.test' });
+      await cache.set('did:plc:789', 'carol.bsky.social');
+
+      const removed = await cache.invalidateSources(['https://plc.mirror.test']);
+
+      expect(removed._unsafeUnwrap()).toBe(1);
+      expect(cache.getHandle('did:plc:123')).toBeUndefined();
+      expect(cache.getDid('alice.bsky.social')).toBeUndefined();
+      expect(cache.getHandle('did:plc:456')).toBe('bob.bsky.social');
+      expect(cache.getHandle('did:plc:789')).toBe('carol.bsky.social');
+    });
+
+    test('should expose metadata without counting as an access', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social', { source: 'https://plc.directory', verified: false });
+      await cache.flush();
+
+      expect(cache.getMetadata('did:plc:123')).toEqual({ source: 'https://plc.directory', verified: false });
+      expect(cache.getMetadata('did:plc:456')).toBeUndefined();
+      expect(cache.hasPendingWrites).toBe(false);
+    });
+
+    test('should reload the verification flag and hosting details', async () => {
+      const hosting = { pds: 'https://pds.example.com', signingKey: 'did:key:zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCy' };
+      await cache.set('did:plc:123', 'alice.bsky.social', { verified: true, ...hosting });
+      await cache.flush();
+
+      const persisted = mockStorage.local.set.mock.calls.at(-1) as unknown as [Record<string, unknown>];
+      mockStorage.local.get.mockResolvedValue(persisted[0]);
+
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+
+      expect(reloaded.getMetadata('did:plc:123')).toEqual({ verified: true, ...hosting });
+    });
+
+    test('should keep what is known about a pair when it is set again without metadata', async () => {
+      const hosting = { pds: 'https://pds.example.com', signingKey: 'did:key:zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCy' };
+      await cache.set('did:plc:123', 'alice.bsky.social', {
+        source: 'https://plc.directory',
+        verified: false,
+        ...hosting,
+      });
+
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      expect(cache.getMetadata('did:plc:123')).toEqual({
+        source: 'https://plc.directory',
+        verified: false,
+        ...hosting,
+      });
+
+      await cache.set('did:plc:123', 'alice.bsky.social', { verified: true, pds: undefined });
+      expect(cache.getMetadata('did:plc:123')).toEqual({ source: 'https://plc.directory', verified: true, ...hosting });
+
+      // A new handle has not been checked yet
+      await cache.set('did:plc:123', 'alice.example.com');
+      expect(cache.getMetadata('did:plc:123')).toEqual({});
+    });
+
+    test('should resolve past handles to their DID and keep them across updates', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      cache.setPastHandles('did:plc:123', ['alice.example.com', 'Old-Alice.bsky.social']);
+
+      expect(cache.getDidForPastHandle('alice.example.com')).toBe('did:plc:123');
+      expect(cache.getDidForPastHandle('old-alice.bsky.social')).toBe('did:plc:123');
+      expect(cache.getDid('alice.example.com')).toBeUndefined();
+
+      await cache.set('did:plc:123', 'alice.bsky.social', { verified: true });
+      expect(cache.getMetadata('did:plc:123')?.pastHandles).toEqual(['alice.example.com', 'Old-Alice.bsky.social']);
+
+      await cache.flush();
+      const persisted = mockStorage.local.set.mock.calls.at(-1) as unknown as [Record<string, unknown>];
+      mockStorage.local.get.mockResolvedValue(persisted[0]);
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+      expect(reloaded.getDidForPastHandle('alice.example.com')).toBe('did:plc:123');
+
+      await cache.delete('did:plc:123');
+      expect(cache.getDidForPastHandle('alice.example.com')).toBeUndefined();
+    });
+
+    test('should keep the saved profile across updates and reloads', async () => {
+      const profile = {
+        did: 'did:plc:123',
+        handle: 'alice.bsky.social',
+        displayName: 'Alice',
+        followersCount: 3,
+        labels: [],
+        fetchedAt: 1000,
+      };
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      cache.setProfile('did:plc:123', profile);
+      await cache.set('did:plc:123', 'alice.bsky.social', { verified: true });
+
+      await cache.flush();
+      const persisted = mockStorage.local.set.mock.calls.at(-1) as unknown as [Record<string, unknown>];
+      mockStorage.local.get.mockResolvedValue(persisted[0]);
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+
+      expect(reloaded.getMetadata('did:plc:123')).toEqual({ verified: true, profile });
+    });
+
+    test('should drop entries with a malformed saved profile on load', async () => {
+      const entry = { handle: 'alice.bsky.social', lastAccessed: 1, resolvedAt: 1 };
+      mockStorage.local.get.mockResolvedValue({
+        'wormhole-cache': { version: 3, shardCount: 1 },
+        'wormhole-cache:0': {
+          'did:plc:123': { ...entry, profile: { did: 'did:plc:123', handle: 'alice.bsky.social', labels: [] } },
+          'did:plc:456': { ...entry, handle: 'bob.bsky.social' },
+        },
+      });
+
+      const reloaded = new DidHandleCache();
+      await reloaded.load();
+
+      expect(reloaded.getEntry('did:plc:123')).toBeUndefined();
+      expect(reloaded.getEntry('did:plc:456')).toBeDefined();
+    });
+
+    test('should not persist when nothing was removed', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social', { source: 'https://plc.directory' });
+      await cache.flush();
+      mockStorage.local.set.mockClear();
+
+      const removed = await cache.invalidateSources(['https://plc.directory']);
+
+      expect(removed._unsafeUnwrap()).toBe(0);
+      expect(mockStorage.local.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inspection', () => {
+    test('should list entries without counting as an access', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social', { verified: true });
+      await cache.set('did:plc:456', 'bob.bsky.social');
+
+      const entries = cache.listEntries();
+
+      expect(entries.map((entry) => entry.did).sort()).toEqual(['did:plc:123', 'did:plc:456']);
+      expect(entries.find((entry) => entry.did === 'did:plc:123')).toMatchObject({
+        handle: 'alice.bsky.social',
+        verified: true,
+      });
+      expect(cache.stats).toEqual({ entries: 2, hits: 0, misses: 0 });
+    });
+
+    test('should count hits and misses', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+
+      cache.getHandle('did:plc:123');
+      cache.getDid('alice.bsky.social');
+      cache.getHandle('did:plc:456');
+
+      expect(cache.stats).toEqual({ entries: 1, hits: 2, misses: 1 });
+    });
+
+    test('should delete a single entry and persist the change', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.set('did:plc:456', 'bob.bsky.social');
+      await cache.flush();
+      mockStorage.local.set.mockClear();
+
+      const deleted = await cache.delete('did:plc:123');
+
+      expect(deleted._unsafeUnwrap()).toBe(true);
+      expect(cache.getEntry('did:plc:123')).toBeUndefined();
+      expect(cache.getDid('alice.bsky.social')).toBeUndefined();
+      expect(cache.getEntry('did:plc:456')?.handle).toBe('bob.bsky.social');
+      expect(mockStorage.local.set).toHaveBeenCalledTimes(1);
+      expect((await cache.delete('did:plc:789'))._unsafeUnwrap()).toBe(false);
+    });
+
+    test('should report bytes in use from storage when available', async () => {
+      mockStorage.local.getBytesInUse = mock(() => Promise.resolve(1234));
+
+      const bytes = await cache.bytesInUse();
+
+      expect(bytes._unsafeUnwrap()).toBe(1234);
+      const [keys] = mockStorage.local.getBytesInUse.mock.calls[0] as unknown as [string[]];
+      expect(keys).toContain('wormhole-cache');
+      expect(keys).toContain('wormhole-cache:31');
+    });
+
+    test('should estimate bytes in use without getBytesInUse', async () => {
+      await cache.set('did:plc:123', 'alice.bsky.social');
+
+      const bytes = await cache.bytesInUse();
+
+      expect(bytes._unsafeUnwrap()).toBe(cache.estimatedStorageSize);
+    });
+  });
+
   describe('clear operations', () => {
     test('should remove all entries from cache and storage', async () => {
       await cache.set('did:plc:test1', 'test1.bsky.social').match(
@@ -469,7 +810,10 @@ describe('DidHandleCache', () => {
 
       expect(cache.size).toBe(0);
       expect(cache.estimatedStorageSize).toBe(0);
-      expect(mockStorage.local.remove).toHaveBeenCalledWith('wormhole-cache');
+      const [keys] = mockStorage.local.remove.mock.calls[0] as unknown as [string[]];
+      expect(keys).toContain('wormhole-cache');
+      expect(keys).toContain('wormhole-cache:0');
+      expect(cache.hasPendingWrites).toBe(false);
     });
   });
 
@@ -477,7 +821,8 @@ describe('DidHandleCache', () => {
     test('should handle storage set failures gracefully', async () => {
       mockStorage.local.set.mockRejectedValue(new Error('Storage quota exceeded'));
 
-      const result = await cache.set('did:plc:123', 'alice.bsky.social');
+      await cache.set('did:plc:123', 'alice.bsky.social');
+      const result = await cache.flush();
 
       result.match(
         () => {
@@ -489,7 +834,13 @@ describe('DidHandleCache', () => {
         },
       );
 
-      expect(cache.getHandle('did:plc:123')).toBeUndefined();
+      // The entry stays in memory and its shard is retried on the next flush
+      expect(cache.getHandle('did:plc:123')).toBe('alice.bsky.social');
+      expect(cache.hasPendingWrites).toBe(true);
+
+      mockStorage.local.set.mockResolvedValue(undefined);
+      expect((await cache.flush()).isOk()).toBe(true);
+      expect(cache.hasPendingWrites).toBe(false);
     });
 
     test('should handle storage get failures gracefully', async () => {
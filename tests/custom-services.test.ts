@@ -0,0 +1,203 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  expandUrlTemplate,
+  validateCustomService,
+  validateUrlTemplate,
+  validateParsePattern,
+  getCustomServiceConfigs,
+  upsertCustomService,
+  removeCustomService,
+  templateValues,
+} from '../src/shared/custom-services';
+import type { CustomServiceDefinition } from '../src/shared/custom-services';
+import { buildDestinations, parseUrlFromServices } from '../src/shared/services';
+import { parseInput } from '../src/shared/parser';
+import type { TransformInfo } from '../src/shared/types';
+
+const profileService: CustomServiceDefinition = {
+  id: 'internal-profile',
+  name: 'internal.tool',
+  emoji: '🧪',
+  urlTemplate: 'https://internal.tool/accounts/{did}',
+  parsePattern: '^/accounts/(did:[^/]+)',
+  supports: ['profile'],
+};
+
+const recordService: CustomServiceDefinition = {
+  id: 'internal-records',
+  name: 'records.internal',
+  emoji: '📦',
+  urlTemplate: 'https://records.internal/{did}/{nsid}/{rkey}',
+  supports: ['post', 'feed', 'list', 'record'],
+  requiredFields: { rkey: true },
+};
+
+const postInfo: TransformInfo = {
+  atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
+  did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
+  handle: 'now.alice.mosphere.at',
+  content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+  bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
+};
+
+describe('expandUrlTemplate', () => {
+  test('should substitute all placeholders', () => {
+    expect(expandUrlTemplate('https://x.test/{handle}/{did}/{nsid}/{rkey}?u={atUri}', templateValues(postInfo))).toBe(
+      'https://x.test/now.alice.mosphere.at/did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u?u=at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
+    );
+  });
+
+  test('should return null when a placeholder value is missing', () => {
+    expect(expandUrlTemplate('https://x.test/{handle}', templateValues({ ...postInfo, handle: null }))).toBeNull();
+    expect(
+      expandUrlTemplate('https://x.test/{rkey}', templateValues({ ...postInfo, content: { kind: 'profile' } })),
+    ).toBeNull();
+  });
+});
+
+describe('validateCustomService', () => {
+  test('should accept a valid definition and trim fields', () => {
+    const result = validateCustomService({ ...profileService, name: '  internal.tool  ' });
+    expect(result._unsafeUnwrap()).toEqual(profileService);
+  });
+
+  test('should drop an empty parse pattern and false required fields', () => {
+    const result = validateCustomService({
+      ...recordService,
+      parsePattern: '',
+      requiredFields: { handle: false, rkey: true, plcOnly: false },
+    });
+    expect(result._unsafeUnwrap()).toEqual(recordService);
+  });
+
+  test('should reject a missing name', () => {
+    const error = validateCustomService({ ...profileService, name: ' ' })._unsafeUnwrapErr();
+    expect(error.type).toBe('VALIDATION_ERROR');
+    expect(error.field).toBe('name');
+  });
+
+  test('should reject unknown or missing content kinds', () => {
+    const unknown = validateCustomService({ ...profileService, supports: ['profile', 'everything'] });
+    expect(unknown._unsafeUnwrapErr().message).toBe('Unknown content kind "everything"');
+    expect(validateCustomService({ ...profileService, supports: [] })._unsafeUnwrapErr().field).toBe('supports');
+  });
+
+  test('should store content kinds in declaration order without duplicates', () => {
+    const result = validateCustomService({ ...recordService, supports: ['record', 'post', 'record'] });
+    expect(result._unsafeUnwrap().supports).toEqual(['post', 'record']);
+  });
+
+  test('should migrate the legacy content support value', () => {
+    const legacy = { ...profileService, supports: undefined };
+    expect(validateCustomService({ ...legacy, contentSupport: 'profiles-and-posts' })._unsafeUnwrap().supports).toEqual(
+      ['profile', 'post'],
+    );
+    expect(validateCustomService({ ...legacy, contentSupport: 'full' })._unsafeUnwrap().supports).not.toContain('blob');
+    expect(validateCustomService({ ...legacy, contentSupport: 'everything' }).isErr()).toBe(true);
+  });
+
+  test('should reject non-object input', () => {
+    expect(validateCustomService('nope').isErr()).toBe(true);
+    expect(validateCustomService(null).isErr()).toBe(true);
+  });
+});
+
+describe('validateUrlTemplate', () => {
+  test('should reject unknown placeholders', () => {
+    const error = validateUrlTemplate('https://x.test/{user}')._unsafeUnwrapErr();
+    expect(error.message).toBe('Unknown placeholder "{user}"');
+  });
+
+  test('should require at least one placeholder', () => {
+    expect(validateUrlTemplate('https://x.test/static').isErr()).toBe(true);
+  });
+
+  test('should reject non-http protocols', () => {
+    expect(validateUrlTemplate('javascript:alert({did})').isErr()).toBe(true);
+  });
+
+  test('should reject templates that do not form a URL', () => {
+    expect(validateUrlTemplate('not a url {did}').isErr()).toBe(true);
+  });
+});
+
+describe('validateParsePattern', () => {
+  test('should reject invalid regular expressions', () => {
+    expect(validateParsePattern('^/profile/([^/]+').isErr()).toBe(true);
+  });
+
+  test('should require a capture group', () => {
+    expect(validateParsePattern('^/profile/[^/]+').isErr()).toBe(true);
+    expect(validateParsePattern('^/profile/(?:x)').isErr()).toBe(true);
+  });
+
+  test('should accept a pattern with a capture group', () => {
+    expect(validateParsePattern('^/profile/([^/]+)')._unsafeUnwrap()).toBe('^/profile/([^/]+)');
+  });
+});
+
+describe('getCustomServiceConfigs', () => {
+  test('should key configs by id and skip invalid definitions', () => {
+    const configs = getCustomServiceConfigs([profileService, { ...recordService, urlTemplate: 'https://x/{bad}' }]);
+    expect(Object.keys(configs)).toEqual(['custom:internal-profile']);
+    expect(configs['custom:internal-profile'].parsing?.hostname).toBe('internal.tool');
+  });
+});
+
+describe('upsertCustomService and removeCustomService', () => {
+  test('should add, replace and remove by id', () => {
+    let list = upsertCustomService([], profileService);
+    list = upsertCustomService(list, recordService);
+    list = upsertCustomService(list, { ...profileService, name: 'renamed' });
+
+    expect(list.map((s) => s.name)).toEqual(['renamed', 'records.internal']);
+    expect(removeCustomService(list, profileService.id)).toEqual([recordService]);
+  });
+});
+
+describe('custom services in buildDestinations', () => {
+  test('should append custom destinations after built-in ones', () => {
+    const destinations = buildDestinations(postInfo, {
+      showEmojis: true,
+      strictMode: false,
+      customServices: [profileService, recordService],
+    });
+    const labels = destinations.map((d) => d.label);
+
+    expect(labels.slice(-2)).toEqual(['🧪 internal.tool', '📦 records.internal']);
+    expect(destinations.at(-1)?.url).toBe(
+      'https://records.internal/did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
+    );
+  });
+
+  test('should respect required fields and strict mode', () => {
+    const profileInfo: TransformInfo = { ...postInfo, content: { kind: 'profile' } };
+    const forProfile = buildDestinations(profileInfo, {
+      showEmojis: false,
+      strictMode: false,
+      customServices: [profileService, recordService],
+    });
+    expect(forProfile.some((d) => d.label === 'records.internal')).toBe(false);
+
+    const strictPost = buildDestinations(postInfo, {
+      showEmojis: false,
+      strictMode: true,
+      customServices: [profileService, recordService],
+    });
+    expect(strictPost.some((d) => d.label === 'internal.tool')).toBe(false);
+    expect(strictPost.some((d) => d.label === 'records.internal')).toBe(true);
+  });
+});
+
+describe('custom services in parsing', () => {
+  test('should parse URLs matching a custom parse pattern', () => {
+    const url = new URL('https://internal.tool/accounts/did:plc:kkkcb7sys7623hcf7oefcffg');
+    expect(parseUrlFromServices(url, [profileService])).toBe('did:plc:kkkcb7sys7623hcf7oefcffg');
+    expect(parseUrlFromServices(url)).toBeNull();
+  });
+
+  test('should thread custom services through parseInput', () => {
+    const result = parseInput('https://internal.tool/accounts/did:plc:kkkcb7sys7623hcf7oefcffg', [profileService]);
+    expect(result._unsafeUnwrap()?.did).toBe('did:plc:kkkcb7sys7623hcf7oefcffg');
+  });
+});
@@ -0,0 +1,42 @@
+import { beforeEach, afterEach, mock } from 'bun:test';
+
+/**
+ * Answers the requests it recognizes, and returns undefined to let the next route try.
+ */
+export type Route = (url: URL) => Response | undefined;
+
+export interface FetchRoutes {
+  // Tried in order for every request; requests no route answers get a 404
+  routes: Route[];
+  // Every URL fetched during the current test
+  requested: string[];
+}
+
+/**
+ * Replaces `fetch` for each test of the calling file with one answering from `routes`. Both
+ * lists start empty in every test, and the real `fetch` is put back after it.
+ */
+export function mockFetchRoutes(): FetchRoutes {
+  const network: FetchRoutes = { routes: [], requested: [] };
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    network.routes = [];
+    network.requested = [];
+    globalThis.fetch = mock((input: string | URL | Request) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      network.requested.push(url.href);
+      for (const route of network.routes) {
+        const response = route(url);
+        if (response) return Promise.resolve(response);
+      }
+      return Promise.resolve(new Response('not found', { status: 404 }));
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  return network;
+}
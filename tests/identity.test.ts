@@ -0,0 +1,117 @@
+import { test, expect, describe, beforeAll, afterEach, mock } from 'bun:test';
+import { resetHostStates } from '../src/shared/retry';
+import { mockFetchRoutes, type Route } from './helpers/fetch-routes';
+
+const DID = 'did:plc:ewvi7nxzyoun6zhxrhs64oiz';
+const HANDLE = 'atproto.com';
+
+// The module loads the cache and the options as soon as it is imported
+(globalThis as unknown as { chrome: unknown }).chrome = {
+  storage: {
+    local: {
+      get: mock(() => Promise.resolve({})),
+      set: mock(() => Promise.resolve()),
+      remove: mock(() => Promise.resolve()),
+      clear: mock(() => Promise.resolve()),
+    },
+    sync: {
+      get: mock((defaults: Record<string, unknown>) => Promise.resolve(defaults)),
+    },
+    onChanged: { addListener: mock(() => undefined) },
+  },
+  runtime: {
+    sendMessage: mock(() => Promise.resolve()),
+  },
+};
+
+const { cache, cacheInitialized, lookupDid, lookupHandle, lookupHandles, refreshCacheEntry } = await import(
+  '../src/background/identity'
+);
+
+const network = mockFetchRoutes();
+
+const json: (href: string, body: unknown) => Route = (href, body) => (url) =>
+  url.href === href ? Response.json(body) : undefined;
+
+beforeAll(async () => {
+  await cacheInitialized;
+});
+
+afterEach(() => {
+  resetHostStates();
+  cache.setTtl(24 * 60 * 60 * 1000);
+});
+
+describe('lookupHandle', () => {
+  test('should drop a stale cached handle once the DID document no longer claims one', async () => {
+    await cache.set(DID, HANDLE);
+    cache.setTtl(0);
+    network.routes = [json(`https://plc.directory/${encodeURIComponent(DID)}`, { id: DID, alsoKnownAs: [] })];
+
+    // The stale handle is still served while it is revalidated
+    expect((await lookupHandle(DID))._unsafeUnwrap()).toEqual({ handle: HANDLE, fromCache: true });
+
+    for (let i = 0; i < 20 && cache.getHandle(DID); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(cache.getHandle(DID)).toBeUndefined();
+  });
+
+  test('should keep the cached handle when the DID document cannot be fetched', async () => {
+    await cache.set(DID, HANDLE);
+    cache.setTtl(0);
+
+    await lookupHandle(DID);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(cache.getHandle(DID)).toBe(HANDLE);
+  });
+});
+
+describe('lookupDid', () => {
+  test('should serve an unverified pair from the cache until it goes stale', async () => {
+    await cache.set(DID, HANDLE, { verified: false, pds: 'https://pds.example.com' });
+
+    expect((await lookupDid(HANDLE))._unsafeUnwrap()).toEqual({ did: DID, fromCache: true, verified: false });
+    expect(network.requested).toEqual([]);
+
+    cache.setTtl(0);
+    await lookupDid(HANDLE);
+    expect(network.requested.length).toBeGreaterThan(0);
+  });
+});
+
+describe('lookupHandles', () => {
+  test("should cache the AppView's pairs as unverified", async () => {
+    const did = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+    network.routes = [
+      json(`https://public.api.bsky.app/xrpc/app.bsky.actor.getProfiles?actors=${encodeURIComponent(did)}`, {
+        profiles: [{ did, handle: 'bsky.app' }],
+      }),
+    ];
+
+    const results = (await lookupHandles([did]))._unsafeUnwrap();
+
+    expect(results).toEqual([{ did, handle: 'bsky.app', fromCache: false, verified: false }]);
+    expect(cache.getMetadata(did)?.verified).toBe(false);
+  });
+});
+
+describe('refreshCacheEntry', () => {
+  test('should fail and keep the entry when the PLC request fails', async () => {
+    await cache.set(DID, HANDLE);
+
+    const result = await refreshCacheEntry(DID);
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'NETWORK_ERROR' });
+    expect(cache.getHandle(DID)).toBe(HANDLE);
+  });
+
+  test('should remove the entry when the DID document has no handle', async () => {
+    await cache.set(DID, HANDLE);
+    network.routes = [json(`https://plc.directory/${encodeURIComponent(DID)}`, { id: DID, alsoKnownAs: [] })];
+
+    expect((await refreshCacheEntry(DID))._unsafeUnwrap()).toBeNull();
+    expect(cache.getHandle(DID)).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { test, expect, describe, mock } from 'bun:test';
+import { ResultAsync, errAsync, okAsync } from 'neverthrow';
+import { InFlightRegistry } from '../src/shared/inflight';
+import { networkError, type WormholeError } from '../src/shared/errors';
+
+/**
+ * A resolution that only settles when the test says so.
+ */
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('InFlightRegistry', () => {
+  test('should share one operation between concurrent callers', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    const gate = deferred<string>();
+    const start = mock(() => ResultAsync.fromSafePromise(gate.promise));
+
+    const first = registry.run('did:plc:abc', start);
+    const second = registry.run('did:plc:abc', start);
+    expect(registry.size).toBe(1);
+
+    gate.resolve('alice.bsky.social');
+    const results = await Promise.all([first, second]);
+
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result._unsafeUnwrap())).toEqual(['alice.bsky.social', 'alice.bsky.social']);
+    expect(registry.size).toBe(0);
+  });
+
+  test('should give every caller the failure and start over afterwards', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    const gate = deferred<null>();
+    const error = networkError('HTTP error', 'https://plc.directory/did:plc:abc', 503);
+    const failing = mock(() => ResultAsync.fromSafePromise(gate.promise).andThen(() => errAsync(error)));
+
+    const first = registry.run('did:plc:abc', failing);
+    const second = registry.run('did:plc:abc', failing);
+    gate.resolve(null);
+
+    expect((await first)._unsafeUnwrapErr()).toBe(error);
+    expect((await second)._unsafeUnwrapErr()).toBe(error);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const retried = await registry.run('did:plc:abc', () => okAsync('alice.bsky.social'));
+    expect(retried._unsafeUnwrap()).toBe('alice.bsky.social');
+  });
+
+  test('should run operations for different keys independently', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    const start = mock((key: string) => okAsync(key.toUpperCase()));
+
+    const [a, b] = await Promise.all([
+      registry.run('alice.bsky.social', () => start('alice.bsky.social')),
+      registry.run('bob.bsky.social', () => start('bob.bsky.social')),
+    ]);
+
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(a._unsafeUnwrap()).toBe('ALICE.BSKY.SOCIAL');
+    expect(b._unsafeUnwrap()).toBe('BOB.BSKY.SOCIAL');
+  });
+
+  test('should not keep results once the operation has settled', async () => {
+    const registry = new InFlightRegistry<number, WormholeError>();
+    let calls = 0;
+    const start = () => okAsync(++calls);
+
+    expect((await registry.run('key', start))._unsafeUnwrap()).toBe(1);
+    expect((await registry.run('key', start))._unsafeUnwrap()).toBe(2);
+  });
+
+  test('should stop waiting for a caller whose signal aborts, but keep running for the others', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    const gate = deferred<string>();
+    let shared: AbortSignal | undefined;
+    const start = (signal: AbortSignal) => {
+      shared = signal;
+      return ResultAsync.fromSafePromise(gate.promise);
+    };
+    const popup = new AbortController();
+
+    const cancelled = registry.run('did:plc:abc', start, popup.signal);
+    const other = registry.run('did:plc:abc', start, new AbortController().signal);
+    popup.abort();
+
+    expect((await cancelled)._unsafeUnwrapErr()).toMatchObject({ type: 'ABORT_ERROR' });
+    expect(shared?.aborted).toBe(false);
+
+    gate.resolve('alice.bsky.social');
+    expect((await other)._unsafeUnwrap()).toBe('alice.bsky.social');
+  });
+
+  test('should cancel the operation once every caller has stopped waiting', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    let shared: AbortSignal | undefined;
+    const start = (signal: AbortSignal) => {
+      shared = signal;
+      return ResultAsync.fromSafePromise(new Promise<string>(() => undefined));
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [registry.run('key', start, first.signal), registry.run('key', start, second.signal)];
+    first.abort();
+    second.abort();
+
+    expect((await Promise.all(results)).every((result) => result.isErr())).toBe(true);
+    expect(shared?.aborted).toBe(true);
+    // A new caller starts over instead of joining the cancelled operation
+    expect(registry.size).toBe(0);
+    expect((await registry.run('key', () => okAsync('fresh')))._unsafeUnwrap()).toBe('fresh');
+  });
+
+  test('should keep running for callers that cannot cancel', async () => {
+    const registry = new InFlightRegistry<string, WormholeError>();
+    let shared: AbortSignal | undefined;
+    const gate = deferred<string>();
+    const start = (signal: AbortSignal) => {
+      shared = signal;
+      return ResultAsync.fromSafePromise(gate.promise);
+    };
+    const popup = new AbortController();
+
+    const background = registry.run('key', start);
+    void registry.run('key', start, popup.signal);
+    popup.abort();
+
+    expect(shared?.aborted).toBe(false);
+    gate.resolve('done');
+    expect((await background)._unsafeUnwrap()).toBe('done');
+  });
+});
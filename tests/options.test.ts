@@ -80,6 +80,15 @@ describe('Options Module', () => {
         expect(result.value).toEqual({
           showEmojis: true,
           strictMode: false,
+          customServices: [],
+          serviceLayout: { order: [], hidden: [] },
+          omniboxDefaultService: 'BSKY_APP',
+          appViewUrl: 'https://public.api.bsky.app',
+          plcDirectoryUrl: 'https://plc.directory',
+          dohUrl: 'https://cloudflare-dns.com/dns-query',
+          wellKnownLookup: false,
+          appViewFallback: true,
+          cacheTtlHours: 24,
         });
       }
     });
@@ -94,6 +103,15 @@ describe('Options Module', () => {
         expect(result.value).toEqual({
           showEmojis: false,
           strictMode: true,
+          customServices: [],
+          serviceLayout: { order: [], hidden: [] },
+          omniboxDefaultService: 'BSKY_APP',
+          appViewUrl: 'https://public.api.bsky.app',
+          plcDirectoryUrl: 'https://plc.directory',
+          dohUrl: 'https://cloudflare-dns.com/dns-query',
+          wellKnownLookup: false,
+          appViewFallback: true,
+          cacheTtlHours: 24,
         });
       }
     });
@@ -108,6 +126,15 @@ describe('Options Module', () => {
         expect(result.value).toEqual({
           showEmojis: false,
           strictMode: false, // default
+          customServices: [],
+          serviceLayout: { order: [], hidden: [] },
+          omniboxDefaultService: 'BSKY_APP',
+          appViewUrl: 'https://public.api.bsky.app',
+          plcDirectoryUrl: 'https://plc.directory',
+          dohUrl: 'https://cloudflare-dns.com/dns-query',
+          wellKnownLookup: false,
+          appViewFallback: true,
+          cacheTtlHours: 24,
         });
       }
     });
@@ -139,6 +166,15 @@ describe('Options Module', () => {
       const options: WormholeOptions = {
         showEmojis: false,
         strictMode: true,
+        customServices: [],
+        serviceLayout: { order: [], hidden: [] },
+        omniboxDefaultService: 'BSKY_APP',
+        appViewUrl: 'https://public.api.bsky.app',
+        plcDirectoryUrl: 'https://plc.directory',
+        dohUrl: 'https://cloudflare-dns.com/dns-query',
+        wellKnownLookup: false,
+        appViewFallback: true,
+        cacheTtlHours: 24,
       };
 
       const result = await setOptions(options);
@@ -153,6 +189,22 @@ describe('Options Module', () => {
       expect(mockStorageData.showEmojis).toBe(false);
       expect(mockStorageData.strictMode).toBeUndefined();
     });
+
+    test('should refuse an option larger than the sync quota allows', async () => {
+      const customServices = Array.from({ length: 60 }, (_, i) => ({
+        id: `service-${i}`,
+        name: `Service ${i}`,
+        emoji: '🔗',
+        urlTemplate: `https://service-${i}.example.com/profile/{did}/post/{rkey}?source=wormhole`,
+        supports: ['profile' as const, 'post' as const],
+      }));
+
+      const result = await setOptions({ customServices, showEmojis: false });
+
+      expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'STORAGE_ERROR', operation: 'quota' });
+      expect(mockStorageData.customServices).toBeUndefined();
+      expect(mockStorageData.showEmojis).toBeUndefined();
+    });
   });
 
   describe('setOption', () => {
@@ -214,6 +266,28 @@ describe('Options Module', () => {
     });
   });
 
+  describe('onOptionsChange with custom services', () => {
+    test('should report custom service changes', async () => {
+      let changedOptions: Partial<WormholeOptions> | null = null;
+      onOptionsChange((changes) => {
+        changedOptions = changes;
+      });
+
+      const customServices = [
+        {
+          id: 'abc',
+          name: 'my.tool',
+          emoji: '🔗',
+          urlTemplate: 'https://my.tool/{did}',
+          supports: ['profile' as const],
+        },
+      ];
+      await setOptions({ customServices });
+
+      expect(changedOptions!).toEqual({ customServices });
+    });
+  });
+
   describe('removeOptionsChangeListener', () => {
     test('should remove change listener', async () => {
       let callCount = 0;
@@ -239,6 +313,15 @@ describe('Options Module', () => {
       expect(defaults).toEqual({
         showEmojis: true,
         strictMode: false,
+        customServices: [],
+        serviceLayout: { order: [], hidden: [] },
+        omniboxDefaultService: 'BSKY_APP',
+        appViewUrl: 'https://public.api.bsky.app',
+        plcDirectoryUrl: 'https://plc.directory',
+        dohUrl: 'https://cloudflare-dns.com/dns-query',
+        wellKnownLookup: false,
+        appViewFallback: true,
+        cacheTtlHours: 24,
       });
     });
 
@@ -248,6 +331,12 @@ describe('Options Module', () => {
       expect(defaults1).not.toBe(defaults2);
       expect(defaults1).toEqual(defaults2);
     });
+
+    test('should not share nested default values between copies', () => {
+      const defaults = getDefaultOptions();
+      defaults.serviceLayout.hidden.push('BSKY_APP');
+      expect(getDefaultOptions().serviceLayout.hidden).toEqual([]);
+    });
   });
 
   describe('getOptionMetadata', () => {
@@ -263,6 +352,51 @@ describe('Options Module', () => {
         defaultValue: false,
         description: 'Only show services that support the current content type',
       });
+      expect(metadata.customServices).toEqual({
+        key: 'customServices',
+        defaultValue: [],
+        description: 'User-defined services built from URL templates',
+      });
+      expect(metadata.serviceLayout).toEqual({
+        key: 'serviceLayout',
+        defaultValue: { order: [], hidden: [] },
+        description: 'Order and visibility of services in the popup',
+      });
+      expect(metadata.omniboxDefaultService).toEqual({
+        key: 'omniboxDefaultService',
+        defaultValue: 'BSKY_APP',
+        description: 'Service opened when pressing Enter after the omnibox keyword',
+      });
+      expect(metadata.appViewUrl).toEqual({
+        key: 'appViewUrl',
+        defaultValue: 'https://public.api.bsky.app',
+        description: 'AppView used to resolve handles to DIDs',
+      });
+      expect(metadata.plcDirectoryUrl).toEqual({
+        key: 'plcDirectoryUrl',
+        defaultValue: 'https://plc.directory',
+        description: 'PLC directory used to resolve did:plc identities',
+      });
+      expect(metadata.dohUrl).toEqual({
+        key: 'dohUrl',
+        defaultValue: 'https://cloudflare-dns.com/dns-query',
+        description: 'DNS-over-HTTPS endpoint used for _atproto TXT lookups',
+      });
+      expect(metadata.wellKnownLookup).toEqual({
+        key: 'wellKnownLookup',
+        defaultValue: false,
+        description: 'Ask https://<handle>/.well-known/atproto-did when DNS has no record',
+      });
+      expect(metadata.appViewFallback).toEqual({
+        key: 'appViewFallback',
+        defaultValue: true,
+        description: 'Ask the AppView when DNS and well-known handle lookups fail',
+      });
+      expect(metadata.cacheTtlHours).toEqual({
+        key: 'cacheTtlHours',
+        defaultValue: 24,
+        description: 'Hours before a cached handle is revalidated',
+      });
     });
   });
 
@@ -273,6 +407,15 @@ describe('Options Module', () => {
       expect(options).toEqual({
         showEmojis: false,
         strictMode: false,
+        customServices: [],
+        serviceLayout: { order: [], hidden: [] },
+        omniboxDefaultService: 'BSKY_APP',
+        appViewUrl: 'https://public.api.bsky.app',
+        plcDirectoryUrl: 'https://plc.directory',
+        dohUrl: 'https://cloudflare-dns.com/dns-query',
+        wellKnownLookup: false,
+        appViewFallback: true,
+        cacheTtlHours: 24,
       });
     });
 
@@ -286,6 +429,15 @@ describe('Options Module', () => {
       expect(options).toEqual({
         showEmojis: true,
         strictMode: false,
+        customServices: [],
+        serviceLayout: { order: [], hidden: [] },
+        omniboxDefaultService: 'BSKY_APP',
+        appViewUrl: 'https://public.api.bsky.app',
+        plcDirectoryUrl: 'https://plc.directory',
+        dohUrl: 'https://cloudflare-dns.com/dns-query',
+        wellKnownLookup: false,
+        appViewFallback: true,
+        cacheTtlHours: 24,
       });
     });
   });
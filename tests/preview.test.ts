@@ -0,0 +1,131 @@
+import { test, expect, describe } from 'bun:test';
+import { fetchRecordPreview, parseRecordPreview } from '../src/shared/preview';
+import { mockFetchRoutes, type Route } from './helpers/fetch-routes';
+
+const DID = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+const POST_URI = `at://${DID}/app.bsky.feed.post/3l6oveex3ii2l`;
+const PDS = 'https://pds.example.com';
+const APPVIEW = 'https://public.api.bsky.app';
+
+const network = mockFetchRoutes();
+
+const xrpc: (method: string, response: Response) => Route = (method, response) => (url) =>
+  url.pathname === `/xrpc/${method}` ? response : undefined;
+
+describe('parseRecordPreview', () => {
+  test('should read the text, embed and reply context of a post', () => {
+    const parent = { uri: `at://${DID}/app.bsky.feed.post/parent`, cid: 'bafyreiparent' };
+    expect(
+      parseRecordPreview('post', {
+        text: 'hello',
+        reply: { root: parent, parent },
+        embed: {
+          $type: 'app.bsky.embed.recordWithMedia',
+          record: { record: { uri: `at://${DID}/app.bsky.feed.post/quoted`, cid: 'bafyreiquoted' } },
+          media: { $type: 'app.bsky.embed.images', images: [] },
+        },
+      }),
+    ).toEqual({
+      kind: 'post',
+      text: 'hello',
+      embed: 'quote with media',
+      replyTo: parent.uri,
+      quotes: `at://${DID}/app.bsky.feed.post/quoted`,
+    });
+    expect(parseRecordPreview('post', { embed: { $type: 'com.example.embed' } })).toEqual({
+      kind: 'post',
+      text: '',
+      embed: 'embed',
+    });
+  });
+
+  test('should read the name and description of feeds and lists', () => {
+    expect(parseRecordPreview('feed', { displayName: 'Cats', description: ' Only cats ' })).toEqual({
+      kind: 'feed',
+      name: 'Cats',
+      description: 'Only cats',
+    });
+    expect(parseRecordPreview('list', { name: 'Mutuals', purpose: 'app.bsky.graph.defs#curatelist' })).toEqual({
+      kind: 'list',
+      name: 'Mutuals',
+    });
+    expect(parseRecordPreview('list', { name: '  ' })).toBeNull();
+  });
+});
+
+describe('fetchRecordPreview', () => {
+  test('should fetch the record from the PDS when it is known', async () => {
+    network.routes = [
+      xrpc('com.atproto.repo.getRecord', Response.json({ uri: POST_URI, value: { text: 'from the PDS' } })),
+    ];
+
+    expect((await fetchRecordPreview(POST_URI, { pds: PDS, appView: APPVIEW }))._unsafeUnwrap()).toEqual({
+      kind: 'post',
+      text: 'from the PDS',
+    });
+    expect(network.requested).toEqual([
+      `${PDS}/xrpc/com.atproto.repo.getRecord?repo=${encodeURIComponent(DID)}&collection=app.bsky.feed.post&rkey=3l6oveex3ii2l`,
+    ]);
+  });
+
+  test('should report deleted records without falling back to the AppView', async () => {
+    network.routes = [
+      xrpc(
+        'com.atproto.repo.getRecord',
+        Response.json({ error: 'RecordNotFound', message: 'Could not locate record' }, { status: 400 }),
+      ),
+    ];
+
+    expect((await fetchRecordPreview(POST_URI, { pds: PDS, appView: APPVIEW }))._unsafeUnwrap()).toEqual({
+      kind: 'not-found',
+    });
+    expect(network.requested).toHaveLength(1);
+  });
+
+  test('should ask the AppView when the PDS is unknown or unreachable', async () => {
+    network.routes = [
+      xrpc('com.atproto.repo.getRecord', new Response('bad gateway', { status: 502 })),
+      xrpc(
+        'app.bsky.feed.getPosts',
+        Response.json({ posts: [{ uri: POST_URI, record: { text: 'from the AppView' } }] }),
+      ),
+    ];
+
+    expect((await fetchRecordPreview(POST_URI, { pds: PDS, appView: APPVIEW }))._unsafeUnwrap()).toEqual({
+      kind: 'post',
+      text: 'from the AppView',
+    });
+    expect(network.requested.at(-1)).toBe(
+      `${APPVIEW}/xrpc/app.bsky.feed.getPosts?uris=${encodeURIComponent(POST_URI)}`,
+    );
+  });
+
+  test('should treat posts the AppView leaves out as not found', async () => {
+    network.routes = [xrpc('app.bsky.feed.getPosts', Response.json({ posts: [] }))];
+
+    expect((await fetchRecordPreview(POST_URI, { appView: APPVIEW }))._unsafeUnwrap()).toEqual({ kind: 'not-found' });
+  });
+
+  test('should read feeds and lists from their AppView views', async () => {
+    network.routes = [
+      xrpc('app.bsky.feed.getFeedGenerator', Response.json({ view: { displayName: 'Cats', description: 'meow' } })),
+      xrpc(
+        'app.bsky.graph.getList',
+        Response.json({ error: 'InvalidRequest', message: 'List not found' }, { status: 400 }),
+      ),
+    ];
+
+    const feed = await fetchRecordPreview(`at://${DID}/app.bsky.feed.generator/cats`, { appView: APPVIEW });
+    const list = await fetchRecordPreview(`at://${DID}/app.bsky.graph.list/3kabc`, { appView: APPVIEW });
+
+    expect(feed._unsafeUnwrap()).toEqual({ kind: 'feed', name: 'Cats', description: 'meow' });
+    expect(list._unsafeUnwrap()).toEqual({ kind: 'not-found' });
+  });
+
+  test('should only preview posts, feeds and lists', async () => {
+    const like = await fetchRecordPreview(`at://${DID}/app.bsky.feed.like/3kabc`, { appView: APPVIEW });
+
+    expect(like._unsafeUnwrapErr().message).toBe('Only posts, feeds and lists can be previewed');
+    expect(network.requested).toEqual([]);
+  });
+});
@@ -0,0 +1,446 @@
+import { test, expect, describe, mock } from 'bun:test';
+import {
+  fetchActorProfile,
+  parseDidDocument,
+  parsePlcAuditLog,
+  pastHandles,
+  resolveDidToHandle,
+  resolveDidToIdentity,
+  resolveDidsToHandles,
+  resolveHandle,
+  resolveHandleToDid,
+  resolvePlcHistory,
+  resolvePlcRotationKeys,
+  verifyHandleResolvesTo,
+} from '../src/shared/resolver';
+import { DEFAULT_ENDPOINTS } from '../src/shared/endpoints';
+import { networkError, validationError } from '../src/shared/errors';
+import { ResultAsync, errAsync, okAsync } from 'neverthrow';
+import { mockFetchRoutes, type Route } from './helpers/fetch-routes';
+
+const DID = 'did:plc:kkkcb7sys7623hcf7oefcffg';
+const HANDLE = 'now.alice.mosphere.at';
+
+const network = mockFetchRoutes();
+
+const dnsAnswer = (...records: string[]): Response =>
+  Response.json({ Status: 0, Answer: records.map((data) => ({ name: `_atproto.${HANDLE}`, type: 16, data })) });
+
+const dns: (response: Response) => Route = (response) => (url) =>
+  url.hostname === 'cloudflare-dns.com' ? response : undefined;
+const wellKnown: (response: Response) => Route = (response) => (url) =>
+  url.pathname === '/.well-known/atproto-did' ? response : undefined;
+const plc: (response: Response) => Route = (response) => (url) =>
+  url.hostname === 'plc.directory' ? response : undefined;
+const appView: (response: Response) => Route = (response) => (url) =>
+  url.pathname.endsWith('com.atproto.identity.resolveHandle') ? response : undefined;
+
+describe('resolveHandle', () => {
+  test('should prefer the DNS TXT record', async () => {
+    network.routes = [dns(dnsAnswer(`"did=${DID}"`)), wellKnown(new Response('did:plc:other'))];
+
+    const result = await resolveHandle(HANDLE);
+
+    expect(result._unsafeUnwrap()).toEqual({ did: DID, method: 'dns' });
+    expect(network.requested.some((url) => url.includes(`name=_atproto.${HANDLE}`))).toBe(true);
+  });
+
+  test('should join TXT values split into several strings', async () => {
+    network.routes = [dns(dnsAnswer(`"did=did:plc:kkkcb7sys" "7623hcf7oefcffg"`))];
+
+    expect((await resolveHandle(HANDLE))._unsafeUnwrap().did).toBe(DID);
+  });
+
+  test('should fall back to the well-known endpoint', async () => {
+    network.routes = [dns(dnsAnswer('"v=spf1 -all"')), wellKnown(new Response(`${DID}\n`))];
+
+    expect((await resolveHandle(HANDLE))._unsafeUnwrap()).toEqual({ did: DID, method: 'well-known' });
+  });
+
+  test('should only ask the well-known endpoint when DNS has no answer', async () => {
+    network.routes = [dns(dnsAnswer(`"did=${DID}"`)), wellKnown(new Response(DID))];
+
+    await resolveHandle(HANDLE);
+
+    expect(network.requested.some((url) => url.includes('/.well-known/atproto-did'))).toBe(false);
+  });
+
+  test('should skip the well-known endpoint when it is turned off', async () => {
+    network.routes = [wellKnown(new Response(DID)), appView(Response.json({ did: DID }))];
+
+    const result = await resolveHandle(HANDLE, DEFAULT_ENDPOINTS, { wellKnown: false });
+
+    expect(result._unsafeUnwrap()).toEqual({ did: DID, method: 'appview' });
+    expect(network.requested.some((url) => url.includes('/.well-known/atproto-did'))).toBe(false);
+  });
+
+  test('should ignore ambiguous TXT records', async () => {
+    network.routes = [dns(dnsAnswer(`"did=${DID}"`, '"did=did:plc:other"')), wellKnown(new Response(DID))];
+
+    expect((await resolveHandle(HANDLE))._unsafeUnwrap().method).toBe('well-known');
+  });
+
+  test('should fall back to the configured AppView', async () => {
+    network.routes = [appView(Response.json({ did: DID }))];
+    const endpoints = { ...DEFAULT_ENDPOINTS, appView: 'https://appview.staging.test' };
+
+    const result = await resolveHandle(HANDLE, endpoints);
+
+    expect(result._unsafeUnwrap()).toEqual({ did: DID, method: 'appview' });
+    expect(network.requested.some((url) => url.startsWith('https://appview.staging.test/xrpc/'))).toBe(true);
+  });
+
+  test('should not ask the AppView when the fallback is disabled', async () => {
+    network.routes = [appView(Response.json({ did: DID }))];
+
+    const result = await resolveHandle(HANDLE, DEFAULT_ENDPOINTS, { appViewFallback: false });
+
+    expect(result.isErr()).toBe(true);
+    expect(network.requested.some((url) => url.includes('resolveHandle'))).toBe(false);
+  });
+
+  test('should reject well-known responses that are not DIDs', async () => {
+    network.routes = [wellKnown(new Response('<html>hello</html>'))];
+
+    const result = await resolveHandle(HANDLE, DEFAULT_ENDPOINTS, { appViewFallback: false });
+
+    expect(result._unsafeUnwrapErr().type).toBe('PARSE_ERROR');
+  });
+});
+
+describe('resolveHandleToDid', () => {
+  test('should return only the DID', async () => {
+    network.routes = [dns(dnsAnswer(`"did=${DID}"`))];
+
+    expect((await resolveHandleToDid(HANDLE))._unsafeUnwrap()).toBe(DID);
+  });
+
+  test('should fail with an AbortError instead of falling back once cancelled', async () => {
+    network.routes = [appView(Response.json({ did: DID }))];
+
+    const result = await resolveHandleToDid(HANDLE, DEFAULT_ENDPOINTS, { signal: AbortSignal.abort() });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'ABORT_ERROR', timedOut: false });
+    expect(network.requested.some((url) => url.includes('resolveHandle'))).toBe(false);
+  });
+});
+
+describe('handle verification', () => {
+  const didDocument = (...handles: string[]) =>
+    Response.json({ id: DID, alsoKnownAs: handles.map((h) => `at://${h}`) });
+
+  test('should verify a handle that resolves back to the DID', async () => {
+    network.routes = [dns(dnsAnswer(`"did=${DID}"`))];
+
+    expect((await verifyHandleResolvesTo(HANDLE, DID))._unsafeUnwrap()).toBe(true);
+  });
+
+  test('should not verify a handle that resolves to another DID or not at all', async () => {
+    network.routes = [dns(dnsAnswer('"did=did:plc:someoneelse"'))];
+    expect((await verifyHandleResolvesTo(HANDLE, DID))._unsafeUnwrap()).toBe(false);
+
+    network.routes = [];
+    expect(
+      (await verifyHandleResolvesTo(HANDLE, DID, DEFAULT_ENDPOINTS, { appViewFallback: false }))._unsafeUnwrap(),
+    ).toBe(false);
+  });
+
+  test('should take the first alsoKnownAs handle as the claimed handle', async () => {
+    network.routes = [plc(didDocument(HANDLE, 'old.handle.test'))];
+
+    expect((await resolveDidToHandle(DID))._unsafeUnwrap()).toBe(HANDLE);
+  });
+
+  test('should report cancellation rather than a missing handle', async () => {
+    const result = await resolveDidToHandle(DID, DEFAULT_ENDPOINTS, { signal: AbortSignal.abort() });
+
+    expect(result._unsafeUnwrapErr().type).toBe('ABORT_ERROR');
+    expect(network.requested).toEqual([]);
+  });
+});
+
+describe('DID document identity', () => {
+  const fullDocument = {
+    id: DID,
+    alsoKnownAs: [`at://${HANDLE}`],
+    verificationMethod: [
+      {
+        id: `${DID}#atproto`,
+        type: 'Multikey',
+        controller: DID,
+        publicKeyMultibase: 'zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCyW92sRJ9pribSF',
+      },
+    ],
+    service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: 'https://pds.example.com/' }],
+  };
+
+  test('should read the PDS and signing key', () => {
+    expect(parseDidDocument(DID, fullDocument)).toEqual({
+      handles: [HANDLE],
+      pds: 'https://pds.example.com',
+      signingKey: 'did:key:zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCyW92sRJ9pribSF',
+    });
+  });
+
+  test('should skip services of the wrong type or with unusable endpoints', () => {
+    const wrongType = { ...fullDocument, service: [{ ...fullDocument.service[0], type: 'BskyFeedGenerator' }] };
+    expect(parseDidDocument(DID, wrongType).pds).toBeUndefined();
+
+    const badEndpoint = { ...fullDocument, service: [{ ...fullDocument.service[0], serviceEndpoint: 'ftp://x.test' }] };
+    expect(parseDidDocument(DID, badEndpoint).pds).toBeUndefined();
+
+    expect(parseDidDocument(DID, { id: DID, service: 'nope', verificationMethod: [null] })).toEqual({ handles: [] });
+  });
+
+  test('should resolve the identity of a DID', async () => {
+    network.routes = [plc(Response.json(fullDocument))];
+
+    expect((await resolveDidToIdentity(DID))._unsafeUnwrap()).toEqual({
+      handle: HANDLE,
+      pds: 'https://pds.example.com',
+      signingKey: 'did:key:zQ3shXjHeiBuRCKmM36cuYnm7YEMzhGnCmCyW92sRJ9pribSF',
+    });
+  });
+
+  test('should fetch the rotation keys of a did:plc from its PLC data', async () => {
+    network.routes = [
+      (url) =>
+        url.pathname.endsWith('/data') ?
+          Response.json({ rotationKeys: ['did:key:zQ3shhCGUqDKjStzuDxPkTxN6ujddP4RkEKJJouJGRRkaLGbg', 42] })
+        : undefined,
+    ];
+
+    expect((await resolvePlcRotationKeys(DID))._unsafeUnwrap()).toEqual([
+      'did:key:zQ3shhCGUqDKjStzuDxPkTxN6ujddP4RkEKJJouJGRRkaLGbg',
+    ]);
+    expect((await resolvePlcRotationKeys('did:web:example.com')).isErr()).toBe(true);
+  });
+});
+
+describe('PLC operation log', () => {
+  const operation = (createdAt: string, handle: string, pds: string, rotationKeys: string[], nullified = false) => ({
+    did: DID,
+    createdAt,
+    nullified,
+    operation: {
+      type: 'plc_operation',
+      alsoKnownAs: [`at://${handle}`],
+      rotationKeys,
+      services: { atproto_pds: { type: 'AtprotoPersonalDataServer', endpoint: pds } },
+    },
+  });
+
+  const log = [
+    {
+      did: DID,
+      createdAt: '2023-03-01T10:00:00.000Z',
+      nullified: false,
+      operation: {
+        type: 'create',
+        handle: 'alice.bsky.social',
+        service: 'https://bsky.social',
+        signingKey: 'did:key:signing',
+        recoveryKey: 'did:key:recovery',
+      },
+    },
+    operation('2023-06-01T10:00:00.000Z', 'alice.example.com', 'https://bsky.social', ['did:key:recovery']),
+    operation('2023-07-01T10:00:00.000Z', 'mallory.example.com', 'https://evil.example', ['did:key:recovery'], true),
+    operation('2024-01-01T10:00:00.000Z', HANDLE, 'https://pds.example.com', ['did:key:recovery']),
+    { did: DID, createdAt: 'not a date', operation: { type: 'plc_tombstone' } },
+  ];
+
+  test('should turn operations into handle, PDS and rotation key changes', () => {
+    expect(parsePlcAuditLog(log)).toEqual([
+      { kind: 'handle', createdAt: '2023-03-01T10:00:00.000Z', handle: 'alice.bsky.social' },
+      { kind: 'pds', createdAt: '2023-03-01T10:00:00.000Z', pds: 'https://bsky.social' },
+      {
+        kind: 'rotationKeys',
+        createdAt: '2023-03-01T10:00:00.000Z',
+        rotationKeys: ['did:key:recovery', 'did:key:signing'],
+      },
+      {
+        kind: 'handle',
+        createdAt: '2023-06-01T10:00:00.000Z',
+        handle: 'alice.example.com',
+        previous: 'alice.bsky.social',
+      },
+      {
+        kind: 'rotationKeys',
+        createdAt: '2023-06-01T10:00:00.000Z',
+        rotationKeys: ['did:key:recovery'],
+        previous: ['did:key:recovery', 'did:key:signing'],
+      },
+      { kind: 'handle', createdAt: '2024-01-01T10:00:00.000Z', handle: HANDLE, previous: 'alice.example.com' },
+      {
+        kind: 'pds',
+        createdAt: '2024-01-01T10:00:00.000Z',
+        pds: 'https://pds.example.com',
+        previous: 'https://bsky.social',
+      },
+    ]);
+  });
+
+  test('should list past handles without the current one', () => {
+    expect(pastHandles(parsePlcAuditLog(log))).toEqual(['alice.example.com', 'alice.bsky.social']);
+    expect(pastHandles([])).toEqual([]);
+  });
+
+  test('should keep the last handle in the past when the latest operation removed it', () => {
+    const history = [
+      { kind: 'handle', createdAt: '2023-03-01T10:00:00.000Z', handle: 'alice.bsky.social' },
+      { kind: 'handle', createdAt: '2023-06-01T10:00:00.000Z', handle: HANDLE, previous: 'alice.bsky.social' },
+      { kind: 'handle', createdAt: '2024-01-01T10:00:00.000Z', handle: null, previous: HANDLE },
+    ] as const;
+
+    expect(pastHandles(history)).toEqual([HANDLE, 'alice.bsky.social']);
+  });
+
+  test('should fetch the audit log from the PLC directory', async () => {
+    network.routes = [(url) => (url.pathname.endsWith('/log/audit') ? Response.json(log) : undefined)];
+
+    const history = (await resolvePlcHistory(DID))._unsafeUnwrap();
+
+    expect(history.filter((event) => event.kind === 'handle')).toHaveLength(3);
+    expect((await resolvePlcHistory('did:web:example.com')).isErr()).toBe(true);
+  });
+
+  test('should reject an audit log that is not a list', async () => {
+    network.routes = [(url) => (url.pathname.endsWith('/log/audit') ? Response.json({ error: 'nope' }) : undefined)];
+
+    expect((await resolvePlcHistory(DID))._unsafeUnwrapErr().message).toBe('Audit log is not a list');
+  });
+});
+
+describe('batch resolution', () => {
+  const dids = Array.from({ length: 30 }, (_, i) => `did:plc:batch${i}`);
+  const profiles: Route = (url) => {
+    if (!url.pathname.endsWith('app.bsky.actor.getProfiles')) return undefined;
+    // The AppView knows every DID but the last one of each batch
+    const actors = url.searchParams.getAll('actors');
+    return Response.json({
+      profiles: actors.slice(0, -1).map((did) => ({ did, handle: `${did.slice('did:plc:'.length)}.bsky.social` })),
+    });
+  };
+
+  test('should ask the AppView in batches of 25 and resolve the rest one by one', async () => {
+    network.routes = [profiles];
+    const resolveDid = mock((did: string) => okAsync(`${did.slice('did:plc:'.length)}.example.com`));
+
+    const results = (await resolveDidsToHandles([...dids, dids[0]], DEFAULT_ENDPOINTS, { resolveDid }))._unsafeUnwrap();
+
+    expect(network.requested.filter((url) => url.includes('getProfiles'))).toHaveLength(2);
+    expect(resolveDid.mock.calls.map(([did]) => did)).toEqual(['did:plc:batch24', 'did:plc:batch29']);
+    expect(results).toHaveLength(30);
+    expect(results[0]).toEqual({ did: 'did:plc:batch0', handle: 'batch0.bsky.social' });
+    expect(results[24]).toEqual({ did: 'did:plc:batch24', handle: 'batch24.example.com' });
+  });
+
+  test('should report errors per DID', async () => {
+    network.routes = [profiles];
+    const error = networkError('HTTP error', 'https://plc.directory/did:plc:batch1', 503);
+    const resolveDid = (did: string) => (did === 'did:plc:batch1' ? errAsync(error) : okAsync(null));
+
+    const results = (
+      await resolveDidsToHandles(['not-a-did', 'did:plc:batch0', 'did:plc:batch1'], DEFAULT_ENDPOINTS, {
+        resolveDid,
+      })
+    )._unsafeUnwrap();
+
+    expect(results).toEqual([
+      { did: 'not-a-did', error: validationError('DID must start with "did:"', 'did', 'not-a-did') },
+      { did: 'did:plc:batch0', handle: 'batch0.bsky.social' },
+      { did: 'did:plc:batch1', error },
+    ]);
+  });
+
+  test('should fall back to DID documents when the AppView fails or is not used', async () => {
+    network.routes = [
+      (url) => (url.pathname.endsWith('getProfiles') ? new Response('down', { status: 400 }) : undefined),
+    ];
+    const resolveDid = mock(() => okAsync('alice.example.com'));
+
+    await resolveDidsToHandles(dids.slice(0, 3), DEFAULT_ENDPOINTS, { resolveDid });
+    expect(resolveDid).toHaveBeenCalledTimes(3);
+
+    network.requested = [];
+    await resolveDidsToHandles(dids.slice(0, 3), DEFAULT_ENDPOINTS, { resolveDid, useAppView: false });
+    expect(network.requested).toEqual([]);
+  });
+
+  test('should keep at most `concurrency` lookups in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const resolveDid = () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return ResultAsync.fromSafePromise(
+        new Promise<string>((resolve) => {
+          setTimeout(() => {
+            inFlight--;
+            resolve('alice.example.com');
+          }, 1);
+        }),
+      );
+    };
+
+    await resolveDidsToHandles(dids, DEFAULT_ENDPOINTS, { resolveDid, useAppView: false, concurrency: 3 });
+
+    expect(maxInFlight).toBe(3);
+  });
+});
+
+describe('actor profile', () => {
+  const profileView = {
+    did: DID,
+    handle: HANDLE,
+    displayName: '  Alice  ',
+    avatar: 'https://cdn.bsky.app/img/avatar/plain/did:plc:kkkcb7sys7623hcf7oefcffg/bafkreiabc@jpeg',
+    followersCount: 1234,
+    followsCount: 10,
+    postsCount: 56,
+    labels: [
+      { src: DID, uri: `at://${DID}/app.bsky.actor.profile/self`, val: '!no-unauthenticated' },
+      { src: 'did:plc:labeler', uri: `at://${DID}`, val: 'spam' },
+      { src: 'did:plc:other', uri: `at://${DID}`, val: 'spam' },
+    ],
+  };
+
+  test('should fetch the profile from the AppView', async () => {
+    network.routes = [
+      (url) => (url.pathname.endsWith('app.bsky.actor.getProfile') ? Response.json(profileView) : undefined),
+    ];
+
+    expect((await fetchActorProfile(DID))._unsafeUnwrap()).toEqual({
+      did: DID,
+      handle: HANDLE,
+      displayName: 'Alice',
+      avatar: profileView.avatar,
+      followersCount: 1234,
+      postsCount: 56,
+      labels: ['!no-unauthenticated', 'spam'],
+    });
+    expect(network.requested[0]).toBe(
+      `${DEFAULT_ENDPOINTS.appView}/xrpc/app.bsky.actor.getProfile?actor=${encodeURIComponent(DID)}`,
+    );
+  });
+
+  test('should leave out malformed fields and mark invalid handles', async () => {
+    const sparse = { did: DID, handle: HANDLE, displayName: 42, avatar: 'javascript:alert(1)', labels: 'spam' };
+    network.routes = [(url) => (url.pathname.endsWith('getProfile') ? Response.json(sparse) : undefined)];
+    expect((await fetchActorProfile(DID))._unsafeUnwrap()).toEqual({ did: DID, handle: HANDLE, labels: [] });
+
+    network.routes = [
+      (url) =>
+        url.pathname.endsWith('getProfile') ? Response.json({ did: DID, handle: 'handle.invalid' }) : undefined,
+    ];
+    expect((await fetchActorProfile(DID))._unsafeUnwrap()).toEqual({
+      did: DID,
+      handle: 'handle.invalid',
+      handleInvalid: true,
+      labels: [],
+    });
+
+    network.routes = [(url) => (url.pathname.endsWith('getProfile') ? Response.json({ handle: HANDLE }) : undefined)];
+    expect((await fetchActorProfile(DID))._unsafeUnwrapErr().message).toBe('Invalid profile in response');
+  });
+});
@@ -0,0 +1,204 @@
+import { test, expect, describe, beforeEach, afterEach, mock, setSystemTime } from 'bun:test';
+import { ResultAsync } from 'neverthrow';
+import {
+  fetchWithRetry,
+  getHostStatuses,
+  parseRetryAfter,
+  resetHostStates,
+  withNetworkRetry,
+} from '../src/shared/retry';
+
+const PLC = 'https://plc.directory/did:plc:z72i7hdynmk6r22z27h6tvur';
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+const originalFetch = globalThis.fetch;
+// Null leaves the request hanging until it is aborted
+let respond: (url: URL) => Response | null = () => new Response('ok');
+let requested: string[] = [];
+
+beforeEach(() => {
+  requested = [];
+  globalThis.fetch = mock((input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    requested.push(url.href);
+    const response = respond(url);
+    if (response) return Promise.resolve(response);
+    return new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => {
+        reject(new Error('aborted'));
+      });
+    });
+  }) as unknown as typeof fetch;
+});
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  resetHostStates();
+  setSystemTime();
+});
+
+const fetchOnce = (url: string, signal?: AbortSignal) =>
+  fetchWithRetry(url, 'Failed to fetch', {}, { maxAttempts: 1, signal });
+
+describe('parseRetryAfter', () => {
+  test('should read delays in seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', NOW)).toBe(NOW + 120_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:01:00 GMT', NOW)).toBe(NOW + 60_000);
+    // Dates in the past mean the request can be sent now
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT', NOW)).toBe(NOW);
+    expect(parseRetryAfter('soon', NOW)).toBeNull();
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+  });
+});
+
+describe('fetchWithRetry', () => {
+  test('should return client error responses without counting them as failures', async () => {
+    respond = () => new Response('not found', { status: 404 });
+
+    for (let i = 0; i < 6; i++) {
+      expect((await fetchOnce(PLC))._unsafeUnwrap().status).toBe(404);
+    }
+    expect(getHostStatuses()).toEqual([]);
+  });
+
+  test('should open the circuit after consecutive failures and fail fast while it is open', async () => {
+    setSystemTime(NOW);
+    respond = () => new Response('unavailable', { status: 500 });
+
+    for (let i = 0; i < 5; i++) {
+      expect((await fetchOnce(PLC))._unsafeUnwrapErr()).toMatchObject({ type: 'NETWORK_ERROR', status: 500 });
+    }
+    const failed = await fetchOnce(PLC);
+
+    expect(failed._unsafeUnwrapErr()).toMatchObject({
+      type: 'NETWORK_ERROR',
+      circuitOpen: true,
+      retryAt: NOW + 30_000,
+    });
+    expect(requested).toHaveLength(5);
+    expect(getHostStatuses()).toEqual([{ host: 'plc.directory', state: 'open', failures: 5, retryAt: NOW + 30_000 }]);
+
+    // Other hosts are not affected
+    respond = () => new Response('ok');
+    expect((await fetchOnce('https://public.api.bsky.app/xrpc/_health'))._unsafeUnwrap().ok).toBe(true);
+  });
+
+  test('should let one request probe the host after the cooldown and close the circuit when it succeeds', async () => {
+    setSystemTime(NOW);
+    respond = () => new Response('unavailable', { status: 503 });
+    for (let i = 0; i < 5; i++) await fetchOnce(PLC);
+
+    setSystemTime(NOW + 30_001);
+    expect(getHostStatuses()).toEqual([{ host: 'plc.directory', state: 'half-open', failures: 5 }]);
+
+    respond = () => new Response('ok');
+    const probe = fetchOnce(PLC);
+    const concurrent = await fetchOnce(PLC);
+
+    expect(concurrent._unsafeUnwrapErr()).toMatchObject({ circuitOpen: true });
+    expect((await probe)._unsafeUnwrap().ok).toBe(true);
+    expect(getHostStatuses()).toEqual([]);
+    expect((await fetchOnce(PLC))._unsafeUnwrap().ok).toBe(true);
+  });
+
+  test('should reopen the circuit when the probe fails', async () => {
+    setSystemTime(NOW);
+    respond = () => new Response('unavailable', { status: 502 });
+    for (let i = 0; i < 5; i++) await fetchOnce(PLC);
+
+    setSystemTime(NOW + 30_001);
+    await fetchOnce(PLC);
+
+    expect(requested).toHaveLength(6);
+    expect(getHostStatuses()).toEqual([{ host: 'plc.directory', state: 'open', failures: 6, retryAt: NOW + 60_001 }]);
+  });
+
+  test('should hold back requests for as long as Retry-After asks', async () => {
+    setSystemTime(NOW);
+    respond = () => new Response('slow down', { status: 429, headers: { 'retry-after': '120' } });
+
+    // Retrying would not help before then, so the first response is the result
+    const limited = await fetchWithRetry(PLC, 'Failed to fetch');
+    expect(limited._unsafeUnwrapErr()).toMatchObject({ status: 429, retryAt: NOW + 120_000 });
+    expect(requested).toHaveLength(1);
+
+    const held = await fetchOnce(PLC);
+    expect(held._unsafeUnwrapErr()).toMatchObject({ status: 429, retryAt: NOW + 120_000 });
+    expect(requested).toHaveLength(1);
+    expect(getHostStatuses()).toEqual([
+      { host: 'plc.directory', state: 'closed', failures: 0, retryAt: NOW + 120_000 },
+    ]);
+
+    setSystemTime(NOW + 120_000);
+    respond = () => new Response('ok');
+    expect((await fetchOnce(PLC))._unsafeUnwrap().ok).toBe(true);
+  });
+
+  test('should space out bursts of requests to the same host', async () => {
+    respond = () => new Response('ok');
+    const started = performance.now();
+
+    const results = await Promise.all(Array.from({ length: 12 }, () => fetchOnce(PLC)));
+
+    expect(results.every((result) => result.isOk())).toBe(true);
+    // Ten requests go out at once, the next two wait for tokens added back at five per second
+    expect(performance.now() - started).toBeGreaterThanOrEqual(350);
+  });
+
+  test('should stop retrying with an AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    respond = () => {
+      controller.abort();
+      return new Response('unavailable', { status: 503 });
+    };
+
+    const result = await fetchWithRetry(PLC, 'Failed to fetch', {}, { signal: controller.signal });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ type: 'ABORT_ERROR', timedOut: false });
+    expect(requested).toHaveLength(1);
+  });
+
+  test('should not count cancelled requests as failures of the host', async () => {
+    respond = () => null;
+
+    for (let i = 0; i < 5; i++) {
+      const controller = new AbortController();
+      const pending = fetchOnce(PLC, controller.signal);
+      controller.abort();
+      expect((await pending)._unsafeUnwrapErr().type).toBe('ABORT_ERROR');
+    }
+    expect(getHostStatuses()).toEqual([]);
+  });
+
+  test('should give up when the deadline passes', async () => {
+    respond = () => null;
+
+    const result = await fetchWithRetry(PLC, 'Failed to fetch', {}, { deadline: 50 });
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({
+      type: 'ABORT_ERROR',
+      message: 'Deadline exceeded',
+      timedOut: true,
+    });
+    expect(requested).toHaveLength(1);
+  });
+});
+
+describe('withNetworkRetry', () => {
+  test('should hand each attempt the signal that cancels it', async () => {
+    const controller = new AbortController();
+    let received: AbortSignal | undefined;
+
+    const result = await withNetworkRetry(
+      (signal) => {
+        received = signal;
+        controller.abort();
+        return ResultAsync.fromSafePromise(Promise.resolve('done'));
+      },
+      { signal: controller.signal },
+    );
+
+    expect(result._unsafeUnwrap()).toBe('done');
+    expect(received?.aborted).toBe(true);
+  });
+});
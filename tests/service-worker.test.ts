@@ -0,0 +1,117 @@
+import { test, expect, describe, afterEach, mock } from 'bun:test';
+import { RESOLVER_PORT } from '../src/shared/types';
+import type { PortRequest } from '../src/shared/types';
+
+type Listener = (...args: never[]) => unknown;
+
+interface MockEvent {
+  addListener: (listener: Listener) => void;
+  listeners: Listener[];
+}
+
+function event(): MockEvent {
+  const listeners: Listener[] = [];
+  return {
+    addListener: (listener) => {
+      listeners.push(listener);
+    },
+    listeners,
+  };
+}
+
+const onConnect = event();
+
+// The service worker registers its listeners and loads the cache as soon as it is imported
+(globalThis as unknown as { chrome: unknown }).chrome = {
+  storage: {
+    local: {
+      get: mock(() => Promise.resolve({})),
+      set: mock(() => Promise.resolve()),
+      remove: mock(() => Promise.resolve()),
+      clear: mock(() => Promise.resolve()),
+    },
+    sync: {
+      get: mock((defaults: Record<string, unknown>) => Promise.resolve(defaults)),
+    },
+    onChanged: event(),
+  },
+  runtime: {
+    getURL: (path: string) => `chrome-extension://wormhole/${path}`,
+    sendMessage: mock(() => Promise.resolve()),
+    onMessage: event(),
+    onConnect,
+    onInstalled: event(),
+    onStartup: event(),
+    onSuspend: event(),
+  },
+  contextMenus: { onClicked: event() },
+  omnibox: {
+    onInputStarted: event(),
+    onInputChanged: event(),
+    onInputCancelled: event(),
+    onInputEntered: event(),
+  },
+  tabs: { onUpdated: event() },
+};
+
+await import('../src/background/service-worker');
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+function connectPort() {
+  const port = {
+    name: RESOLVER_PORT,
+    sender: {},
+    onMessage: event(),
+    onDisconnect: event(),
+    postMessage: mock(() => undefined),
+  };
+  for (const listener of onConnect.listeners) {
+    (listener as (connected: typeof port) => void)(port);
+  }
+  return {
+    postMessage: port.postMessage,
+    send: (request: PortRequest) => {
+      for (const listener of port.onMessage.listeners) {
+        (listener as (message: PortRequest) => void)(request);
+      }
+    },
+    disconnect: () => {
+      for (const listener of port.onDisconnect.listeners) {
+        (listener as () => void)();
+      }
+    },
+  };
+}
+
+describe('resolver port', () => {
+  test('should cancel a profile fetch when the popup disconnects', async () => {
+    const signals: AbortSignal[] = [];
+    globalThis.fetch = mock((_input: string | URL | Request, init?: RequestInit) => {
+      if (init?.signal) signals.push(init.signal);
+      // Never answers: only aborting ends the request
+      return new Promise((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(new Error('aborted'));
+        });
+      });
+    }) as unknown as typeof fetch;
+
+    const port = connectPort();
+    port.send({ id: 1, request: { type: 'GET_PROFILE', did: 'did:plc:z72i7hdynmk6r22z27h6tvur' } });
+    for (let i = 0; i < 20 && !signals.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(signals).toHaveLength(1);
+
+    port.disconnect();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(signals[0].aborted).toBe(true);
+    expect(port.postMessage).not.toHaveBeenCalled();
+  });
+});
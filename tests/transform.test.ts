@@ -1,7 +1,9 @@
 import { test, expect, describe, beforeEach } from 'bun:test';
 import { parseInput } from '../src/shared/parser';
+import { buildBskyAppPath, contentFromPath, supportsContent } from '../src/shared/content';
 import { resolveHandleToDid } from '../src/shared/resolver';
-import { buildDestinations } from '../src/shared/services';
+import { buildDestinations, orderServiceKeys, SERVICES } from '../src/shared/services';
+import type { TransformInfo } from '../src/shared/types';
 
 // Mock data for handle resolution
 const mockResponses = {
@@ -83,8 +85,7 @@ describe('parseInput', () => {
       atUri: 'at://why.bsky.team/app.bsky.feed.generator/cozy',
       did: null,
       handle: 'why.bsky.team',
-      rkey: 'cozy',
-      nsid: 'app.bsky.feed.generator',
+      content: { kind: 'feed', rkey: 'cozy' },
       bskyAppPath: '/profile/why.bsky.team/feed/cozy',
     });
   });
@@ -95,8 +96,8 @@ describe('parseInput', () => {
       atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lpe6ek6xhs2n',
       did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
       handle: null,
-      rkey: '3lpe6ek6xhs2n',
-      nsid: 'app.bsky.feed.post',
+      content: { kind: 'post', rkey: '3lpe6ek6xhs2n' },
+      tid: { timestamp: 1747472221369784, clockId: 19 },
       bskyAppPath: '/profile/did:plc:kkkcb7sys7623hcf7oefcffg/post/3lpe6ek6xhs2n',
     });
   });
@@ -107,8 +108,8 @@ describe('parseInput', () => {
       atUri: 'at://alice.mosphere.at/app.bsky.graph.list/3l7vfhhfqcz2u',
       did: null,
       handle: 'alice.mosphere.at',
-      rkey: '3l7vfhhfqcz2u',
-      nsid: 'app.bsky.graph.list',
+      content: { kind: 'list', rkey: '3l7vfhhfqcz2u' },
+      tid: { timestamp: 1730471764810015, clockId: 26 },
       bskyAppPath: '/profile/alice.mosphere.at/lists/3l7vfhhfqcz2u',
     });
   });
@@ -119,8 +120,7 @@ describe('parseInput', () => {
       atUri: 'at://did:web:didweb.watch',
       did: 'did:web:didweb.watch',
       handle: null,
-      rkey: undefined,
-      nsid: undefined,
+      content: { kind: 'profile' },
       bskyAppPath: '/profile/did:web:didweb.watch',
     });
   });
@@ -131,8 +131,8 @@ describe('parseInput', () => {
       atUri: 'at://did:web:didweb.watch/app.bsky.feed.post/3lpaioe62qk2j',
       did: 'did:web:didweb.watch',
       handle: null,
-      rkey: '3lpaioe62qk2j',
-      nsid: 'app.bsky.feed.post',
+      content: { kind: 'post', rkey: '3lpaioe62qk2j' },
+      tid: { timestamp: 1747345849058000, clockId: 15 },
       bskyAppPath: '/profile/did:web:didweb.watch/post/3lpaioe62qk2j',
     });
   });
@@ -143,8 +143,7 @@ describe('parseInput', () => {
       atUri: 'at://did:plc:5sk4eqsu7byvwokfcnfgywxg',
       did: 'did:plc:5sk4eqsu7byvwokfcnfgywxg',
       handle: null,
-      nsid: undefined,
-      rkey: undefined,
+      content: { kind: 'profile' },
       bskyAppPath: '/profile/did:plc:5sk4eqsu7byvwokfcnfgywxg',
     });
   });
@@ -157,12 +156,50 @@ describe('parseInput', () => {
       atUri: 'at://did:plc:2p6idfgjfe3easltiwmnofw6/app.bsky.feed.post/3lpjntj43rs23',
       did: 'did:plc:2p6idfgjfe3easltiwmnofw6',
       handle: null,
-      rkey: '3lpjntj43rs23',
-      nsid: 'app.bsky.feed.post',
+      content: { kind: 'post', rkey: '3lpjntj43rs23' },
+      tid: { timestamp: 1747660628363000, clockId: 1 },
       bskyAppPath: '/profile/did:plc:2p6idfgjfe3easltiwmnofw6/post/3lpjntj43rs23',
     });
   });
 
+  describe('record collections', () => {
+    test('should parse bsky.app starter pack URLs', () => {
+      const result = parseInput('https://bsky.app/starter-pack/alice.mosphere.at/3lbyrqxwbmd2t');
+      expect(result._unsafeUnwrap()).toEqual({
+        atUri: 'at://alice.mosphere.at/app.bsky.graph.starterpack/3lbyrqxwbmd2t',
+        did: null,
+        handle: 'alice.mosphere.at',
+        content: { kind: 'starter-pack', rkey: '3lbyrqxwbmd2t' },
+        tid: { timestamp: 1732787071491657, clockId: 25 },
+        bskyAppPath: '/starter-pack/alice.mosphere.at/3lbyrqxwbmd2t',
+      });
+    });
+
+    test('should parse deer.social starter pack URLs with DID', () => {
+      const result = parseInput('https://deer.social/starter-pack/did:plc:by3jhwdqgbtrcc7q4tkkv3cf/3lbyrqxwbmd2t');
+      expect(result._unsafeUnwrap()?.atUri).toBe(
+        'at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf/app.bsky.graph.starterpack/3lbyrqxwbmd2t',
+      );
+      expect(result._unsafeUnwrap()?.bskyAppPath).toBe('/starter-pack/did:plc:by3jhwdqgbtrcc7q4tkkv3cf/3lbyrqxwbmd2t');
+    });
+
+    test('should keep the record context of likes, follows and other collections', () => {
+      for (const nsid of ['app.bsky.feed.like', 'app.bsky.feed.repost', 'app.bsky.graph.follow', 'xyz.example.thing']) {
+        const result = parseInput(`at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf/${nsid}/3lbyrqxwbmd2t`)._unsafeUnwrap();
+        expect(result?.atUri).toBe(`at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf/${nsid}/3lbyrqxwbmd2t`);
+        expect(result?.content).toEqual({ kind: 'record', nsid, rkey: '3lbyrqxwbmd2t' });
+        expect(result?.bskyAppPath).toBe('/profile/did:plc:by3jhwdqgbtrcc7q4tkkv3cf');
+      }
+    });
+
+    test('should link profile and labeler records to the profile', () => {
+      const profile = parseInput('at://alice.mosphere.at/app.bsky.actor.profile/self')._unsafeUnwrap();
+      const labeler = parseInput('at://alice.mosphere.at/app.bsky.labeler.service/self')._unsafeUnwrap();
+      expect(profile?.bskyAppPath).toBe('/profile/alice.mosphere.at');
+      expect(labeler?.bskyAppPath).toBe('/profile/alice.mosphere.at');
+    });
+  });
+
   describe('real service URLs', () => {
     test('should parse bsky.app post URL', () => {
       const result = parseInput('https://bsky.app/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u');
@@ -170,8 +207,8 @@ describe('parseInput', () => {
         atUri: 'at://now.alice.mosphere.at/app.bsky.feed.post/3lqcw7n4gly2u',
         did: null,
         handle: 'now.alice.mosphere.at',
-        rkey: '3lqcw7n4gly2u',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+        tid: { timestamp: 1748528618615358, clockId: 26 },
         bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
       });
     });
@@ -182,8 +219,8 @@ describe('parseInput', () => {
         atUri: 'at://now.alice.mosphere.at/app.bsky.feed.post/3lqcw7n4gly2u',
         did: null,
         handle: 'now.alice.mosphere.at',
-        rkey: '3lqcw7n4gly2u',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+        tid: { timestamp: 1748528618615358, clockId: 26 },
         bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
       });
     });
@@ -196,8 +233,8 @@ describe('parseInput', () => {
         atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
         did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
         handle: null,
-        rkey: '3lqcw7n4gly2u',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+        tid: { timestamp: 1748528618615358, clockId: 26 },
         bskyAppPath: '/profile/did:plc:kkkcb7sys7623hcf7oefcffg/post/3lqcw7n4gly2u',
       });
     });
@@ -210,8 +247,8 @@ describe('parseInput', () => {
         atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
         did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
         handle: null,
-        rkey: '3lqcw7n4gly2u',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+        tid: { timestamp: 1748528618615358, clockId: 26 },
         bskyAppPath: '/profile/did:plc:kkkcb7sys7623hcf7oefcffg/post/3lqcw7n4gly2u',
       });
     });
@@ -224,8 +261,7 @@ describe('parseInput', () => {
         atUri: 'at://alice.mosphere.at',
         did: null,
         handle: 'alice.mosphere.at',
-        rkey: undefined,
-        nsid: undefined,
+        content: { kind: 'profile' },
         bskyAppPath: '/profile/alice.mosphere.at',
       });
     });
@@ -236,8 +272,8 @@ describe('parseInput', () => {
         atUri: 'at://alice.mosphere.at/app.bsky.feed.post/3lqeyxrcx6k2p',
         did: null,
         handle: 'alice.mosphere.at',
-        rkey: '3lqeyxrcx6k2p',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqeyxrcx6k2p' },
+        tid: { timestamp: 1748600295290000, clockId: 21 },
         bskyAppPath: '/profile/alice.mosphere.at/post/3lqeyxrcx6k2p',
       });
     });
@@ -248,8 +284,7 @@ describe('parseInput', () => {
         atUri: 'at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
         did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
         handle: null,
-        rkey: undefined,
-        nsid: undefined,
+        content: { kind: 'profile' },
         bskyAppPath: '/profile/did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
       });
     });
@@ -260,12 +295,138 @@ describe('parseInput', () => {
         atUri: 'at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf/app.bsky.feed.post/3lqeyxrcx6k2p',
         did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
         handle: null,
-        rkey: '3lqeyxrcx6k2p',
-        nsid: 'app.bsky.feed.post',
+        content: { kind: 'post', rkey: '3lqeyxrcx6k2p' },
+        tid: { timestamp: 1748600295290000, clockId: 21 },
         bskyAppPath: '/profile/did:plc:by3jhwdqgbtrcc7q4tkkv3cf/post/3lqeyxrcx6k2p',
       });
     });
   });
+  test('should report which part of an AT URI is malformed', () => {
+    const error = parseInput('at://alice.bsky.social/app.bsky.feed.post/bad key')._unsafeUnwrapErr();
+    expect(error.type).toBe('VALIDATION_ERROR');
+    expect(error.message).toBe('Record key contains invalid characters');
+    expect(parseInput('at://alice.local')._unsafeUnwrapErr().message).toBe('Handles under ".local" are not allowed');
+  });
+
+  describe('blob URLs', () => {
+    const did = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+    const cid = 'bafkreibjfgx2gprinfvicegelk5kosd6y2frmqpqzwqkg7usac74l3t2v4';
+
+    test('should parse cdn.bsky.app image URLs', () => {
+      expect(parseInput(`https://cdn.bsky.app/img/feed_fullsize/plain/${did}/${cid}@jpeg`)._unsafeUnwrap()).toEqual({
+        atUri: `at://${did}`,
+        did,
+        handle: null,
+        content: { kind: 'blob', cid },
+        bskyAppPath: `/profile/${did}`,
+      });
+    });
+
+    test('should parse video URLs with encoded DIDs', () => {
+      const encoded = encodeURIComponent(did);
+      for (const url of [
+        `https://video.bsky.app/watch/${encoded}/${cid}/playlist.m3u8`,
+        `https://video.cdn.bsky.app/hls/${did}/${cid}/720p/video.m3u8`,
+      ]) {
+        expect(parseInput(url)._unsafeUnwrap()?.content).toEqual({ kind: 'blob', cid });
+      }
+    });
+
+    test('should remember the PDS of getBlob URLs', () => {
+      const result = parseInput(`https://pds.example.com/xrpc/com.atproto.sync.getBlob?did=${did}&cid=${cid}`);
+      expect(result._unsafeUnwrap()?.pds).toBe('https://pds.example.com');
+    });
+
+    test('should reject malformed CIDs', () => {
+      const result = parseInput(`https://cdn.bsky.app/img/avatar/plain/${did}/not-a-cid@jpeg`);
+      expect(result._unsafeUnwrapErr().message).toBe('CID contains invalid characters');
+    });
+  });
+
+  describe('XRPC URLs', () => {
+    const did = 'did:plc:z72i7hdynmk6r22z27h6tvur';
+
+    test('should parse getRecord calls on any host', () => {
+      const result = parseInput(
+        `https://pds.example.com/xrpc/com.atproto.repo.getRecord?repo=${did}&collection=app.bsky.feed.post&rkey=3jui7kd54zh2y`,
+      );
+      expect(result._unsafeUnwrap()?.atUri).toBe(`at://${did}/app.bsky.feed.post/3jui7kd54zh2y`);
+    });
+
+    test('should parse AT URI and actor parameters', () => {
+      const thread = parseInput(
+        `https://public.api.bsky.app/xrpc/app.bsky.feed.getPostThread?uri=at://${did}/app.bsky.feed.post/3jui7kd54zh2y`,
+      );
+      expect(thread._unsafeUnwrap()?.content).toEqual({ kind: 'post', rkey: '3jui7kd54zh2y' });
+
+      const feed = parseInput(
+        `https://public.api.bsky.app/xrpc/app.bsky.feed.getFeed?feed=${encodeURIComponent(`at://${did}/app.bsky.feed.generator/whats-hot`)}`,
+      );
+      expect(feed._unsafeUnwrap()?.content).toEqual({ kind: 'feed', rkey: 'whats-hot' });
+
+      const profile = parseInput('https://public.api.bsky.app/xrpc/app.bsky.actor.getProfile?actor=bsky.app');
+      expect(profile._unsafeUnwrap()?.handle).toBe('bsky.app');
+    });
+
+    test('should parse collections and remember the PDS of sync calls', () => {
+      const records = parseInput(
+        `https://pds.example.com/xrpc/com.atproto.repo.listRecords?repo=${did}&collection=app.bsky.feed.like`,
+      );
+      expect(records._unsafeUnwrap()?.content).toEqual({ kind: 'collection', nsid: 'app.bsky.feed.like' });
+
+      const repo = parseInput(`https://pds.example.com/xrpc/com.atproto.sync.getRepo?did=${did}`);
+      expect(repo._unsafeUnwrap()).toMatchObject({ did, pds: 'https://pds.example.com' });
+    });
+
+    test('should ignore XRPC calls without a repository', () => {
+      expect(parseInput('https://public.api.bsky.app/xrpc/app.bsky.feed.getTimeline')._unsafeUnwrap()).toBeNull();
+    });
+  });
+
+  test('should fall back to the account for unknown routes on other sites', () => {
+    const result = parseInput('https://example.com/profile/alice.bsky.social/followers?tab=all');
+    expect(result._unsafeUnwrap()?.atUri).toBe('at://alice.bsky.social');
+  });
+
+  test('should fall back to the account for bsky.app profile sub-routes', () => {
+    const followers = parseInput('https://bsky.app/profile/alice.bsky.social/followers');
+    expect(followers._unsafeUnwrap()).toMatchObject({ atUri: 'at://alice.bsky.social', content: { kind: 'profile' } });
+    const follows = parseInput('https://deer.social/profile/alice.bsky.social/follows');
+    expect(follows._unsafeUnwrap()?.atUri).toBe('at://alice.bsky.social');
+  });
+
+  test('should fall back to the post for its liked-by and quotes routes', () => {
+    const post = 'at://alice.bsky.social/app.bsky.feed.post/3l6oveex3ii2l';
+    const likedBy = parseInput('https://bsky.app/profile/alice.bsky.social/post/3l6oveex3ii2l/liked-by');
+    expect(likedBy._unsafeUnwrap()).toMatchObject({ atUri: post, content: { kind: 'post', rkey: '3l6oveex3ii2l' } });
+    const quotes = parseInput('https://bsky.app/profile/alice.bsky.social/post/3l6oveex3ii2l/quotes');
+    expect(quotes._unsafeUnwrap()?.atUri).toBe(post);
+  });
+});
+
+describe('content', () => {
+  test('should classify AT URI paths', () => {
+    expect(contentFromPath()).toEqual({ kind: 'profile' });
+    expect(contentFromPath('app.bsky.feed.post', 'abc')).toEqual({ kind: 'post', rkey: 'abc' });
+    expect(contentFromPath('app.bsky.feed.like', 'abc')).toEqual({
+      kind: 'record',
+      nsid: 'app.bsky.feed.like',
+      rkey: 'abc',
+    });
+    expect(contentFromPath('app.bsky.feed.like')).toEqual({ kind: 'collection', nsid: 'app.bsky.feed.like' });
+  });
+
+  test('should link content without a bsky.app page to the profile', () => {
+    expect(buildBskyAppPath('alice.test', { kind: 'list', rkey: 'abc' })).toBe('/profile/alice.test/lists/abc');
+    expect(buildBskyAppPath('alice.test', { kind: 'collection', nsid: 'app.bsky.feed.like' })).toBe(
+      '/profile/alice.test',
+    );
+  });
+
+  test('should treat profile records as profiles', () => {
+    expect(supportsContent(['profile'], { kind: 'record', nsid: 'app.bsky.actor.profile', rkey: 'self' })).toBe(true);
+    expect(supportsContent(['profile'], { kind: 'record', nsid: 'app.bsky.feed.like', rkey: 'abc' })).toBe(false);
+  });
 });
 
 describe('resolveHandleToDid', () => {
@@ -296,12 +457,12 @@ describe('resolveHandleToDid', () => {
 });
 
 describe('buildDestinations', () => {
-  const realPostInfo = {
+  const realPostInfo: TransformInfo = {
     atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
     did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
     handle: 'now.alice.mosphere.at',
-    rkey: '3lqcw7n4gly2u',
-    nsid: 'app.bsky.feed.post',
+    content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+    tid: { timestamp: 1748528618615358, clockId: 26 },
     bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
   };
 
@@ -345,8 +506,16 @@ describe('buildDestinations', () => {
     expect(destMap['plc.directory']).toBe('https://plc.directory/did:plc:kkkcb7sys7623hcf7oefcffg');
   });
 
+  test('should tag each destination with its service key', () => {
+    const destinations = buildDestinations(realPostInfo);
+    expect(destinations.find((dest) => dest.key === 'BSKY_APP')?.url).toBe(
+      'https://bsky.app/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
+    );
+    expect(new Set(destinations.map((dest) => dest.key)).size).toBe(destinations.length);
+  });
+
   test('should exclude skythread when no rkey', () => {
-    const profileOnlyInfo = { ...realPostInfo, rkey: undefined, nsid: undefined };
+    const profileOnlyInfo: TransformInfo = { ...realPostInfo, content: { kind: 'profile' } };
     const destinations = buildDestinations(profileOnlyInfo);
     const hasSkythreadUrl = destinations.some((dest) => dest.url.includes('skythread'));
     expect(hasSkythreadUrl).toBe(false);
@@ -362,7 +531,7 @@ describe('buildDestinations', () => {
   });
 
   test('should exclude plc-specific services for did:web', () => {
-    const didWebInfo = {
+    const didWebInfo: TransformInfo = {
       ...realPostInfo,
       did: 'did:web:example.com',
       atUri: 'at://did:web:example.com/app.bsky.feed.post/3lqcw7n4gly2u',
@@ -381,60 +550,60 @@ describe('buildDestinations', () => {
   });
 
   test('should exclude emojis in labels when showEmojis is false', () => {
-    const destinations = buildDestinations(realPostInfo, false);
+    const destinations = buildDestinations(realPostInfo, { showEmojis: false });
     const bskyDestination = destinations.find((dest) => dest.url.includes('bsky.app'));
     expect(bskyDestination?.label).toBe('bsky.app');
   });
 
   test('should include toolify.blue with emoji when showEmojis is true', () => {
-    const destinations = buildDestinations(realPostInfo, true);
+    const destinations = buildDestinations(realPostInfo, { showEmojis: true });
     const toolifyDestination = destinations.find((dest) => dest.url.includes('toolify.blue'));
     expect(toolifyDestination?.label).toBe('🔧 toolify.blue');
   });
 
   test('should include toolify.blue without emoji when showEmojis is false', () => {
-    const destinations = buildDestinations(realPostInfo, false);
+    const destinations = buildDestinations(realPostInfo, { showEmojis: false });
     const toolifyDestination = destinations.find((dest) => dest.url.includes('toolify.blue'));
     expect(toolifyDestination?.label).toBe('toolify.blue');
   });
 
   describe('strict mode', () => {
-    const postInfo = {
+    const postInfo: TransformInfo = {
       atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
       did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
       handle: 'now.alice.mosphere.at',
-      rkey: '3lqcw7n4gly2u',
-      nsid: 'app.bsky.feed.post',
+      content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+      tid: { timestamp: 1748528618615358, clockId: 26 },
       bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
     };
 
-    const feedInfo = {
+    const feedInfo: TransformInfo = {
       atUri: 'at://why.bsky.team/app.bsky.feed.generator/cozy',
       did: 'did:plc:vpkhqolt662uhesyj6nxm7ys',
       handle: 'why.bsky.team',
-      rkey: 'cozy',
-      nsid: 'app.bsky.feed.generator',
+      content: { kind: 'feed', rkey: 'cozy' },
       bskyAppPath: '/profile/why.bsky.team/feed/cozy',
     };
 
-    const listInfo = {
+    const listInfo: TransformInfo = {
       atUri: 'at://alice.mosphere.at/app.bsky.graph.list/3l7vfhhfqcz2u',
       did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
       handle: 'alice.mosphere.at',
-      rkey: '3l7vfhhfqcz2u',
-      nsid: 'app.bsky.graph.list',
+      content: { kind: 'list', rkey: '3l7vfhhfqcz2u' },
+      tid: { timestamp: 1730471764810015, clockId: 26 },
       bskyAppPath: '/profile/alice.mosphere.at/lists/3l7vfhhfqcz2u',
     };
 
-    const profileInfo = {
+    const profileInfo: TransformInfo = {
       atUri: 'at://alice.mosphere.at',
       did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
       handle: 'alice.mosphere.at',
+      content: { kind: 'profile' },
       bskyAppPath: '/profile/alice.mosphere.at',
     };
 
     test('should maintain all services in non-strict mode (default)', () => {
-      const destinations = buildDestinations(postInfo, true, false);
+      const destinations = buildDestinations(postInfo, { showEmojis: true, strictMode: false });
 
       // Should include all service types
       expect(destinations.some((d) => d.url.includes('deer.social'))).toBe(true); // full
@@ -444,7 +613,7 @@ describe('buildDestinations', () => {
     });
 
     test('should exclude profile-only services in strict mode for posts', () => {
-      const destinations = buildDestinations(postInfo, true, true);
+      const destinations = buildDestinations(postInfo, { showEmojis: true, strictMode: true });
 
       // Should include post-supporting services
       expect(destinations.some((d) => d.url.includes('deer.social'))).toBe(true); // full
@@ -462,7 +631,7 @@ describe('buildDestinations', () => {
     });
 
     test('should exclude toolify.blue in strict mode for feeds', () => {
-      const destinations = buildDestinations(feedInfo, true, true);
+      const destinations = buildDestinations(feedInfo, { showEmojis: true, strictMode: true });
 
       // Should include full content support services
       expect(destinations.some((d) => d.url.includes('deer.social'))).toBe(true);
@@ -481,7 +650,7 @@ describe('buildDestinations', () => {
     });
 
     test('should exclude toolify.blue in strict mode for lists', () => {
-      const destinations = buildDestinations(listInfo, true, true);
+      const destinations = buildDestinations(listInfo, { showEmojis: true, strictMode: true });
 
       // Should include full content support services
       expect(destinations.some((d) => d.url.includes('deer.social'))).toBe(true);
@@ -500,7 +669,7 @@ describe('buildDestinations', () => {
     });
 
     test('should include all applicable services in strict mode for profiles', () => {
-      const destinations = buildDestinations(profileInfo, true, true);
+      const destinations = buildDestinations(profileInfo, { showEmojis: true, strictMode: true });
 
       // Profile viewing should include all services that don't require rkey
       expect(destinations.some((d) => d.url.includes('deer.social'))).toBe(true);
@@ -517,9 +686,68 @@ describe('buildDestinations', () => {
       expect(destinations.some((d) => d.url.includes('skythread'))).toBe(false);
     });
 
+    const starterPackInfo: TransformInfo = {
+      atUri: 'at://alice.mosphere.at/app.bsky.graph.starterpack/3lbyrqxwbmd2t',
+      did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
+      handle: 'alice.mosphere.at',
+      content: { kind: 'starter-pack', rkey: '3lbyrqxwbmd2t' },
+      tid: { timestamp: 1732787071491657, clockId: 25 },
+      bskyAppPath: '/starter-pack/alice.mosphere.at/3lbyrqxwbmd2t',
+    };
+
+    const likeInfo: TransformInfo = {
+      atUri: 'at://did:plc:by3jhwdqgbtrcc7q4tkkv3cf/app.bsky.feed.like/3lbyrqxwbmd2t',
+      did: 'did:plc:by3jhwdqgbtrcc7q4tkkv3cf',
+      handle: 'alice.mosphere.at',
+      content: { kind: 'record', nsid: 'app.bsky.feed.like', rkey: '3lbyrqxwbmd2t' },
+      tid: { timestamp: 1732787071491657, clockId: 25 },
+      bskyAppPath: '/profile/alice.mosphere.at',
+    };
+
+    test('should link starter packs to their bsky.app route', () => {
+      const destinations = buildDestinations(starterPackInfo, { showEmojis: false, strictMode: true });
+
+      expect(destinations.find((d) => d.label === 'bsky.app')?.url).toBe(
+        'https://bsky.app/starter-pack/alice.mosphere.at/3lbyrqxwbmd2t',
+      );
+      expect(destinations.find((d) => d.label === 'deer.social')?.url).toBe(
+        'https://deer.social/starter-pack/alice.mosphere.at/3lbyrqxwbmd2t',
+      );
+      expect(destinations.some((d) => d.url.includes('pdsls.dev'))).toBe(true);
+      expect(destinations.some((d) => d.url.includes('toolify.blue'))).toBe(false);
+      expect(destinations.some((d) => d.url.includes('skythread'))).toBe(false);
+    });
+
+    test('should only offer raw record viewers in strict mode for likes', () => {
+      const labels = buildDestinations(likeInfo, { showEmojis: false, strictMode: true }).map((d) => d.label);
+
+      expect(labels).toEqual(['atp.tools', 'pdsls.dev', 'repoview.edavis.dev', 'astrolabe.at', 'raw record (JSON)']);
+    });
+
+    test('should not build skythread links for records other than posts', () => {
+      const destinations = buildDestinations(likeInfo, { showEmojis: false, strictMode: false });
+
+      expect(destinations.some((d) => d.url.includes('skythread'))).toBe(false);
+      expect(destinations.some((d) => d.url.includes('bsky.app'))).toBe(true);
+    });
+
+    test('should treat profile records like profiles in strict mode', () => {
+      const destinations = buildDestinations(
+        {
+          ...profileInfo,
+          atUri: 'at://alice.mosphere.at/app.bsky.actor.profile/self',
+          content: { kind: 'record', nsid: 'app.bsky.actor.profile', rkey: 'self' },
+        },
+        { showEmojis: false, strictMode: true },
+      );
+
+      expect(destinations.some((d) => d.url.includes('cred.blue'))).toBe(true);
+      expect(destinations.find((d) => d.label === 'bsky.app')?.url).toBe('https://bsky.app/profile/alice.mosphere.at');
+    });
+
     test('should work correctly with emoji settings in strict mode', () => {
-      const destinationsWithEmoji = buildDestinations(postInfo, true, true);
-      const destinationsWithoutEmoji = buildDestinations(postInfo, false, true);
+      const destinationsWithEmoji = buildDestinations(postInfo, { showEmojis: true, strictMode: true });
+      const destinationsWithoutEmoji = buildDestinations(postInfo, { showEmojis: false, strictMode: true });
 
       // Should have same filtering but different labels
       expect(destinationsWithEmoji.length).toBe(destinationsWithoutEmoji.length);
@@ -531,4 +759,135 @@ describe('buildDestinations', () => {
       expect(bskyWithoutEmoji?.label).toBe('bsky.app');
     });
   });
+
+  describe('raw records', () => {
+    const postInfo: TransformInfo = {
+      atUri: 'at://did:plc:kkkcb7sys7623hcf7oefcffg/app.bsky.feed.post/3lqcw7n4gly2u',
+      did: 'did:plc:kkkcb7sys7623hcf7oefcffg',
+      handle: 'now.alice.mosphere.at',
+      content: { kind: 'post', rkey: '3lqcw7n4gly2u' },
+      bskyAppPath: '/profile/now.alice.mosphere.at/post/3lqcw7n4gly2u',
+    };
+
+    test('should ask the configured AppView for the record', () => {
+      const destinations = buildDestinations(postInfo, {
+        showEmojis: false,
+        strictMode: true,
+        appViewUrl: 'https://appview.example.com/',
+      });
+      expect(destinations.find((d) => d.key === 'RAW_RECORD')?.url).toBe(
+        'https://appview.example.com/xrpc/com.atproto.repo.getRecord?repo=did%3Aplc%3Akkkcb7sys7623hcf7oefcffg&collection=app.bsky.feed.post&rkey=3lqcw7n4gly2u',
+      );
+    });
+
+    test('should prefer the PDS and skip content that is not a record', () => {
+      const fromPds = buildDestinations(
+        { ...postInfo, pds: 'https://pds.example.com' },
+        { showEmojis: false, strictMode: false },
+      );
+      expect(fromPds.find((d) => d.key === 'RAW_RECORD')?.url).toStartWith(
+        'https://pds.example.com/xrpc/com.atproto.repo.getRecord?',
+      );
+      const profileInfo: TransformInfo = { ...postInfo, content: { kind: 'profile' } };
+      expect(
+        buildDestinations(profileInfo, { showEmojis: false, strictMode: false }).some((d) => d.key === 'RAW_RECORD'),
+      ).toBe(false);
+    });
+  });
+
+  describe('PDS links', () => {
+    test('should link repository tools on the PDS once it is known', () => {
+      const info: TransformInfo = {
+        atUri: 'at://did:plc:z72i7hdynmk6r22z27h6tvur',
+        did: 'did:plc:z72i7hdynmk6r22z27h6tvur',
+        handle: 'bsky.app',
+        content: { kind: 'profile' },
+        bskyAppPath: '/profile/bsky.app',
+        pds: 'https://pds.example.com',
+      };
+      const urls = Object.fromEntries(
+        buildDestinations(info, { showEmojis: false, strictMode: true }).map((d) => [d.key, d.url]),
+      );
+      expect(urls.PDS_DESCRIBE_REPO).toBe(
+        'https://pds.example.com/xrpc/com.atproto.repo.describeRepo?repo=did%3Aplc%3Az72i7hdynmk6r22z27h6tvur',
+      );
+      expect(urls.PDS_REPO_CAR).toBe(
+        'https://pds.example.com/xrpc/com.atproto.sync.getRepo?did=did%3Aplc%3Az72i7hdynmk6r22z27h6tvur',
+      );
+    });
+  });
+
+  describe('blobs', () => {
+    const blobInfo: TransformInfo = {
+      atUri: 'at://did:plc:z72i7hdynmk6r22z27h6tvur',
+      did: 'did:plc:z72i7hdynmk6r22z27h6tvur',
+      handle: null,
+      content: { kind: 'blob', cid: 'bafkreibjfgx2gprinfvicegelk5kosd6y2frmqpqzwqkg7usac74l3t2v4' },
+      bskyAppPath: '/profile/did:plc:z72i7hdynmk6r22z27h6tvur',
+      pds: 'https://pds.example.com',
+    };
+
+    test('should link the raw blob on the PDS and the uploader everywhere else in strict mode', () => {
+      const destinations = buildDestinations(blobInfo, { showEmojis: false, strictMode: true });
+      expect(destinations.find((d) => d.key === 'PDS_BLOB')?.url).toBe(
+        'https://pds.example.com/xrpc/com.atproto.sync.getBlob?did=did%3Aplc%3Az72i7hdynmk6r22z27h6tvur&cid=bafkreibjfgx2gprinfvicegelk5kosd6y2frmqpqzwqkg7usac74l3t2v4',
+      );
+      expect(destinations.find((d) => d.key === 'BSKY_APP')?.url).toBe(
+        'https://bsky.app/profile/did:plc:z72i7hdynmk6r22z27h6tvur',
+      );
+      expect(destinations.some((d) => d.key === 'SKYTHREAD')).toBe(false);
+    });
+
+    test('should skip the raw blob link while the PDS is unknown', () => {
+      const destinations = buildDestinations({ ...blobInfo, pds: undefined }, { showEmojis: false, strictMode: true });
+      expect(destinations.some((d) => d.key === 'PDS_BLOB')).toBe(false);
+    });
+  });
+
+  describe('service layout', () => {
+    const labelsFor = (layout: { order: string[]; hidden: string[] }) =>
+      buildDestinations(realPostInfo, { showEmojis: false, strictMode: false, serviceLayout: layout }).map(
+        (d) => d.label,
+      );
+
+    test('should keep declaration order with an empty layout', () => {
+      expect(labelsFor({ order: [], hidden: [] })).toEqual(
+        buildDestinations(realPostInfo, { showEmojis: false }).map((d) => d.label),
+      );
+    });
+
+    test('should follow the saved order', () => {
+      const keys = Object.keys(SERVICES).filter((key) => key !== 'PLC_DIRECTORY' && key !== 'BSKY_APP');
+      const labels = labelsFor({ order: ['PLC_DIRECTORY', 'BSKY_APP', ...keys], hidden: [] });
+      expect(labels.slice(0, 3)).toEqual(['plc.directory', 'bsky.app', 'deer.social']);
+      // PDS links need the account's PDS, which this post does not have
+      expect(labels).toHaveLength(Object.keys(SERVICES).filter((key) => !key.startsWith('PDS_')).length);
+    });
+
+    test('should omit hidden services', () => {
+      const labels = labelsFor({ order: [], hidden: ['BSKY_APP', 'CLEARSKY'] });
+      expect(labels).not.toContain('bsky.app');
+      expect(labels).not.toContain('clearsky');
+      expect(labels).toContain('deer.social');
+    });
+  });
+});
+
+describe('orderServiceKeys', () => {
+  test('should return declaration order when nothing is saved', () => {
+    expect(orderServiceKeys(['A', 'B', 'C'], [])).toEqual(['A', 'B', 'C']);
+  });
+
+  test('should place new keys after their declaration-order predecessor', () => {
+    // B is new since the order was saved
+    expect(orderServiceKeys(['A', 'B', 'C', 'D'], ['C', 'A', 'D'])).toEqual(['C', 'A', 'B', 'D']);
+  });
+
+  test('should place a new first key at the start', () => {
+    expect(orderServiceKeys(['Z', 'A', 'B'], ['B', 'A'])).toEqual(['Z', 'B', 'A']);
+  });
+
+  test('should drop saved keys that no longer exist and duplicates', () => {
+    expect(orderServiceKeys(['A', 'B'], ['GONE', 'B', 'B', 'A'])).toEqual(['B', 'A']);
+  });
 });
@@ -0,0 +1,135 @@
+import { test, expect, describe } from 'bun:test';
+import {
+  parseAtUri,
+  validateDid,
+  validateHandle,
+  validateNsid,
+  validateRecordKey,
+  validateTid,
+} from '../src/shared/validation';
+import { decodeTid, formatTidTimestamp } from '../src/shared/tid';
+
+describe('validateDid', () => {
+  test('should accept DIDs of any method', () => {
+    expect(validateDid('did:plc:z72i7hdynmk6r22z27h6tvur').isOk()).toBe(true);
+    expect(validateDid('did:web:example.com%3A8080').isOk()).toBe(true);
+    expect(validateDid('did:method:val:two').isOk()).toBe(true);
+  });
+
+  test('should describe what is wrong', () => {
+    expect(validateDid('plc:abc')._unsafeUnwrapErr().message).toBe('DID must start with "did:"');
+    expect(validateDid('did:PLC:abc')._unsafeUnwrapErr().message).toBe('DID method must be lowercase letters');
+    expect(validateDid('did:plc:')._unsafeUnwrapErr().message).toBe('DID is missing its identifier');
+    expect(validateDid('did:plc:ab/c')._unsafeUnwrapErr().message).toBe('DID identifier contains invalid characters');
+    expect(validateDid('did:plc:abc:')._unsafeUnwrapErr().message).toBe('DID must not end with ":" or "%"');
+  });
+});
+
+describe('validateHandle', () => {
+  test('should accept domain names', () => {
+    expect(validateHandle('alice.bsky.social').isOk()).toBe(true);
+    expect(validateHandle('XN--LGBBAT1AD8J.example.com').isOk()).toBe(true);
+    expect(validateHandle('a.co').isOk()).toBe(true);
+  });
+
+  test('should reject malformed domain names', () => {
+    expect(validateHandle('alice')._unsafeUnwrapErr().message).toBe(
+      'Handle must be a domain name with at least two segments',
+    );
+    expect(validateHandle('alice..bsky.social')._unsafeUnwrapErr().message).toBe(
+      'Handle segments must be 1 to 63 characters long',
+    );
+    expect(validateHandle('al_ice.bsky.social')._unsafeUnwrapErr().message).toBe('Handle contains invalid characters');
+    expect(validateHandle('-alice.bsky.social')._unsafeUnwrapErr().message).toBe(
+      'Handle segments must not start or end with a hyphen',
+    );
+    expect(validateHandle('alice.123')._unsafeUnwrapErr().message).toBe(
+      'Handle top-level domain must not start with a digit',
+    );
+    expect(validateHandle(`${'a'.repeat(250)}.com`).isErr()).toBe(true);
+  });
+
+  test('should reject special-use top-level domains', () => {
+    expect(validateHandle('alice.local')._unsafeUnwrapErr().message).toBe('Handles under ".local" are not allowed');
+    expect(validateHandle('alice.ONION').isErr()).toBe(true);
+    expect(validateHandle('alice.test').isOk()).toBe(true);
+  });
+});
+
+describe('validateNsid', () => {
+  test('should accept NSIDs', () => {
+    expect(validateNsid('app.bsky.feed.post').isOk()).toBe(true);
+    expect(validateNsid('com.example.fooBar2').isOk()).toBe(true);
+  });
+
+  test('should reject malformed NSIDs', () => {
+    expect(validateNsid('bsky.post')._unsafeUnwrapErr().message).toBe('NSID must have at least three segments');
+    expect(validateNsid('1com.example.foo')._unsafeUnwrapErr().message).toBe('NSID must not start with a digit');
+    expect(validateNsid('com.example.foo-bar')._unsafeUnwrapErr().message).toBe(
+      'NSID name must be letters and digits, starting with a letter',
+    );
+    expect(validateNsid('com.exa_mple.foo')._unsafeUnwrapErr().message).toBe('NSID contains invalid characters');
+  });
+});
+
+describe('validateRecordKey', () => {
+  test('should accept record keys', () => {
+    expect(validateRecordKey('3jui7kd54zh2y').isOk()).toBe(true);
+    expect(validateRecordKey('self').isOk()).toBe(true);
+    expect(validateRecordKey('example.com:~_-').isOk()).toBe(true);
+  });
+
+  test('should reject malformed record keys', () => {
+    expect(validateRecordKey('a b')._unsafeUnwrapErr().message).toBe('Record key contains invalid characters');
+    expect(validateRecordKey('..')._unsafeUnwrapErr().message).toBe('Record key must not be "." or ".."');
+    expect(validateRecordKey('').isErr()).toBe(true);
+    expect(validateRecordKey('a'.repeat(513)).isErr()).toBe(true);
+  });
+});
+
+describe('validateTid', () => {
+  test('should accept TIDs and reject other record keys', () => {
+    expect(validateTid('3jui7kd54zh2y').isOk()).toBe(true);
+    expect(validateTid('self')._unsafeUnwrapErr().message).toBe('TID must be 13 characters long');
+    expect(validateTid('zzzzzzzzzzzzz')._unsafeUnwrapErr().message).toBe('TID contains invalid characters');
+    expect(validateTid('3JUI7KD54ZH2Y').isErr()).toBe(true);
+  });
+});
+
+describe('decodeTid', () => {
+  test('should decode the timestamp and clock ID', () => {
+    expect(decodeTid('3jui7kd54zh2y')._unsafeUnwrap()).toEqual({ timestamp: 1682739741953005, clockId: 30 });
+    expect(decodeTid('2222222222222')._unsafeUnwrap()).toEqual({ timestamp: 0, clockId: 0 });
+    expect(decodeTid('self').isErr()).toBe(true);
+  });
+
+  test('should format the timestamp in UTC to the minute', () => {
+    expect(formatTidTimestamp(decodeTid('3jui7kd54zh2y')._unsafeUnwrap())).toBe('2023-04-29 03:42 UTC');
+  });
+});
+
+describe('parseAtUri', () => {
+  test('should split an AT URI into its parts', () => {
+    expect(parseAtUri('at://did:plc:abc/app.bsky.feed.post/3jui7kd54zh2y?x=1#/text')._unsafeUnwrap()).toEqual({
+      authority: 'did:plc:abc',
+      collection: 'app.bsky.feed.post',
+      rkey: '3jui7kd54zh2y',
+      query: 'x=1',
+      fragment: '/text',
+    });
+    expect(parseAtUri('at://alice.bsky.social')._unsafeUnwrap()).toEqual({ authority: 'alice.bsky.social' });
+  });
+
+  test('should reject malformed AT URIs', () => {
+    expect(parseAtUri('https://bsky.app').isErr()).toBe(true);
+    expect(parseAtUri('at://alice.bsky.social/app.bsky.feed.post/abc/extra').isErr()).toBe(true);
+    expect(parseAtUri('at://alice.bsky.social/app.bsky.feed.post/').isErr()).toBe(true);
+    expect(parseAtUri('at://alice.bsky.social#text')._unsafeUnwrapErr().message).toBe(
+      'AT URI fragment must be a path starting with "/"',
+    );
+    expect(parseAtUri('at://alice.bsky.social/post')._unsafeUnwrapErr().field).toBe('nsid');
+    expect(parseAtUri('at://alice.bsky.social/app.bsky.feed.post/a b')._unsafeUnwrapErr().message).toBe(
+      'Record key contains invalid characters',
+    );
+  });
+});